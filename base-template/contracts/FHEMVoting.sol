@@ -1,7 +1,7 @@
 // SPDX-License-Identifier: BSD-3-Clause-Clear
 pragma solidity ^0.8.24;
 
-import { FHE, euint32, euint8, externalEuint32 } from "@fhevm/solidity/lib/FHE.sol";
+import { FHE, ebool, euint32, euint64, euint8, externalEbool, externalEuint32, externalEuint8 } from "@fhevm/solidity/lib/FHE.sol";
 import { ZamaEthereumConfig } from "@fhevm/solidity/config/ZamaConfig.sol";
 
 /**
@@ -11,9 +11,14 @@ import { ZamaEthereumConfig } from "@fhevm/solidity/config/ZamaConfig.sol";
  *
  * ## Key Concepts Demonstrated:
  * - Encrypted vote encryption and aggregation
+ * - Encrypted ballots: FHE.select routes the voter's weight to yes or no
  * - FHE arithmetic operations on encrypted ballots
  * - Access control with FHE.allow permissions
  * - User and contract decryption patterns
+ * - Public decryption of the outcome, verified on-chain with FHE.checkSignatures
+ * - Per-proposal voting period, quorum and approval threshold
+ * - Multiple-choice ballots: an encrypted option index tallied with FHE.eq and FHE.select
+ * - Encrypted voting weights, decryptable only by their voter
  */
 contract FHEMVoting is ZamaEthereumConfig {
     /// @notice Proposal structure
@@ -24,26 +29,56 @@ contract FHEMVoting is ZamaEthereumConfig {
         address creator;
         uint256 createdAt;
         uint256 votingEnd;
-        euint32 encryptedYesCount;
-        euint32 encryptedNoCount;
+        // Minimum total weight voting (yes + no)
+        uint32 quorum;
+        // Percentage of the turnout the yes weight must exceed
+        uint32 approvalThreshold;
+        // 64-bit sums of 32-bit weights, so they can't wrap
+        euint64 encryptedYesCount;
+        euint64 encryptedNoCount;
+        // Threshold and quorum met, publicly decryptable once execution is requested
+        ebool encryptedPassed;
+        bool decryptionRequested;
+        bool passed;
         bool executed;
         bool active;
+        // Multiple-choice proposals only; empty for yes/no proposals
+        string[] options;
+        euint64[] encryptedOptionTallies;
+        // Whether finalization reveals every option's tally, not just the winner
+        bool revealTallies;
+        euint8 encryptedWinner;
+        uint8 winningOption;
+        uint64[] optionTallies;
     }
 
-    /// @notice Vote commitment structure
-    struct VoteCommitment {
-        bytes32 voteHash;
-        bool revealed;
+    /// @notice Inclusive range a proposal parameter must fall in
+    struct ParameterBounds {
+        uint256 min;
+        uint256 max;
     }
 
     // Storage
-    mapping(uint256 => Proposal) public proposals;
-    mapping(uint256 => mapping(address => VoteCommitment)) public voteCommitments;
-    mapping(address => uint256) public voterWeight;
+    // Read through getProposal: a getter for every field would be too deep for the stack
+    mapping(uint256 => Proposal) internal proposals;
+    mapping(uint256 => mapping(address => bool)) public encryptedVoteCast;
+    // Encrypted voting weights; each voter can decrypt only their own
+    mapping(address => euint32) private voterWeight;
+    // Whether the owner has assigned the address a weight (possibly an encrypted 0)
+    mapping(address => bool) public isVoter;
+    // Encrypted weight >= MIN_VOTING_POWER, awaiting its public decryption
+    mapping(address => ebool) private proposerCheck;
+    // Set by confirmProposerCheck; reset whenever the weight changes
+    mapping(address => bool) public canPropose;
 
     uint256 public proposalCount;
-    uint256 public constant VOTING_DURATION = 7 days;
-    uint256 public constant MIN_VOTING_POWER = 100;
+    uint32 public constant MIN_VOTING_POWER = 100;
+    uint8 public constant MAX_OPTIONS = 8;
+
+    // Limits on the parameters proposals are created with, set by the owner
+    ParameterBounds public votingPeriodBounds;
+    ParameterBounds public quorumBounds;
+    ParameterBounds public approvalThresholdBounds;
 
     address public owner;
     bool public votingOpen;
@@ -56,17 +91,24 @@ contract FHEMVoting is ZamaEthereumConfig {
         uint256 votingEnd
     );
 
-    event VoteCommitted(
+    event EncryptedVoteCast(
         uint256 indexed proposalId,
-        address indexed voter,
-        bytes32 voteHash
+        address indexed voter
+    );
+
+    event ProposerCheckRequested(
+        address indexed account,
+        bytes32 eligibleHandle
     );
 
-    event VoteRevealed(
+    event ProposerChecked(
+        address indexed account,
+        bool eligible
+    );
+
+    event DecryptionRequested(
         uint256 indexed proposalId,
-        address indexed voter,
-        bool support,
-        uint256 weight
+        bytes32[] handles
     );
 
     event ProposalExecuted(
@@ -75,6 +117,12 @@ contract FHEMVoting is ZamaEthereumConfig {
         uint256 timestamp
     );
 
+    event WinnerRevealed(
+        uint256 indexed proposalId,
+        uint8 winningOption,
+        uint64[] tallies
+    );
+
     modifier onlyOwner() {
         require(msg.sender == owner, "Only owner can operate");
         _;
@@ -88,52 +136,192 @@ contract FHEMVoting is ZamaEthereumConfig {
     constructor() {
         owner = msg.sender;
         votingOpen = true;
+
+        votingPeriodBounds = ParameterBounds(1 hours, 30 days);
+        quorumBounds = ParameterBounds(0, type(uint32).max);
+        approvalThresholdBounds = ParameterBounds(50, 99);
     }
 
     /**
-     * @notice Set voting weight for a single voter
+     * @notice Set the encrypted voting weight of a single voter
      * @param voter Address of the voter
-     * @param weight Voting weight (0 = no voting rights)
+     * @param encryptedWeight Encrypted voting weight (an encrypted 0 counts for nothing)
+     * @param inputProof Zero-knowledge proof attesting correct encryption
+     *
+     * ## Pattern: Encrypted Voting Power
+     * Weights arrive encrypted from the owner's client and are never stored
+     * in the clear. The contract may use a weight, and its voter may
+     * decrypt it; no one else can:
+     *
+     * {{snippet #_setVoterWeight}}
+     *
+     * Ballots widen the encrypted weight to 64 bits and add it into the
+     * tallies, which are 64 bits wide: FHE.add wraps silently, and a sum
+     * of 32-bit weights can only reach 2^64 after 2^32 ballots.
      */
-    function setVoterWeight(address voter, uint256 weight) external onlyOwner {
-        voterWeight[voter] = weight;
+    function setVoterWeight(
+        address voter,
+        externalEuint32 encryptedWeight,
+        bytes calldata inputProof
+    ) external onlyOwner {
+        _setVoterWeight(voter, FHE.fromExternal(encryptedWeight, inputProof));
     }
 
     /**
-     * @notice Set voting weights for multiple voters in batch
+     * @notice Set encrypted voting weights for multiple voters in batch
      * @param voters Array of voter addresses
-     * @param weights Array of corresponding weights
+     * @param encryptedWeights Array of corresponding encrypted weights
+     * @param inputProof One proof covering all the encrypted weights
      */
     function setMultipleVoterWeights(
         address[] memory voters,
-        uint256[] memory weights
+        externalEuint32[] memory encryptedWeights,
+        bytes calldata inputProof
     ) external onlyOwner {
-        require(voters.length == weights.length, "Array length mismatch");
+        require(voters.length == encryptedWeights.length, "Array length mismatch");
         for (uint i = 0; i < voters.length; i++) {
-            voterWeight[voters[i]] = weights[i];
+            _setVoterWeight(voters[i], FHE.fromExternal(encryptedWeights[i], inputProof));
         }
     }
 
+    function _setVoterWeight(address voter, euint32 weight) internal {
+        voterWeight[voter] = weight;
+        isVoter[voter] = true;
+        FHE.allowThis(weight);
+        FHE.allow(weight, voter);
+
+        // A proposer check against the previous weight no longer holds
+        canPropose[voter] = false;
+        proposerCheck[voter] = ebool.wrap(0);
+    }
+
+    /**
+     * @notice Check, under encryption, that the caller's weight reaches MIN_VOTING_POWER
+     *
+     * ## Pattern: Encrypted Threshold Check
+     * A require can't read an encrypted weight, so the comparison yields
+     * an ebool. Only that bit is made publicly decryptable, never the
+     * weight itself:
+     *
+     * {{snippet #proposer-check}}
+     *
+     * Submitting its decryption to confirmProposerCheck sets canPropose.
+     * Until it is true, createProposal reverts with "Insufficient voting power".
+     *
+     * ## Requirements:
+     * - Caller must have been assigned a weight
+     */
+    function requestProposerCheck() external {
+        require(isVoter[msg.sender], "No voting permission");
+
+        // snippet-start: proposer-check
+        ebool eligible = FHE.ge(voterWeight[msg.sender], MIN_VOTING_POWER);
+        proposerCheck[msg.sender] = FHE.makePubliclyDecryptable(eligible);
+        // snippet-end: proposer-check
+
+        emit ProposerCheckRequested(msg.sender, FHE.toBytes32(eligible));
+    }
+
+    /**
+     * @notice Record the decrypted result of an account's proposer check
+     * @param account Account that requested the check
+     * @param abiEncodedClearValues ABI-encoded decrypted result (a single bool)
+     * @param decryptionProof KMS signatures over the handle and its cleartext
+     *
+     * ## Requirements:
+     * - The account must have a pending check, made against its current weight
+     * - The proof must match the check's handle and cleartext
+     */
+    function confirmProposerCheck(
+        address account,
+        bytes calldata abiEncodedClearValues,
+        bytes calldata decryptionProof
+    ) external {
+        require(FHE.isInitialized(proposerCheck[account]), "Proposer check not requested");
+
+        bytes32[] memory handles = new bytes32[](1);
+        handles[0] = FHE.toBytes32(proposerCheck[account]);
+        FHE.checkSignatures(handles, abiEncodedClearValues, decryptionProof);
+
+        bool eligible = abi.decode(abiEncodedClearValues, (bool));
+        canPropose[account] = eligible;
+        proposerCheck[account] = ebool.wrap(0);
+
+        emit ProposerChecked(account, eligible);
+    }
+
+    /**
+     * @notice Set the range of voting periods proposals can be created with
+     * @param min Shortest voting period, in seconds
+     * @param max Longest voting period, in seconds
+     */
+    function setVotingPeriodBounds(uint256 min, uint256 max) external onlyOwner {
+        require(min > 0 && min <= max, "Invalid bounds");
+        votingPeriodBounds = ParameterBounds(min, max);
+    }
+
+    /**
+     * @notice Set the range of quorums proposals can be created with
+     * @param min Lowest quorum, in voting weight
+     * @param max Highest quorum, in voting weight
+     */
+    function setQuorumBounds(uint32 min, uint32 max) external onlyOwner {
+        require(min <= max, "Invalid bounds");
+        quorumBounds = ParameterBounds(min, max);
+    }
+
+    /**
+     * @notice Set the range of approval thresholds proposals can be created with
+     * @param min Lowest threshold, in percent of the turnout
+     * @param max Highest threshold, in percent of the turnout
+     *
+     * @dev Yes must exceed the threshold, so 100% could never pass
+     */
+    function setApprovalThresholdBounds(uint32 min, uint32 max) external onlyOwner {
+        require(min <= max && max < 100, "Invalid bounds");
+        approvalThresholdBounds = ParameterBounds(min, max);
+    }
+
     /**
      * @notice Create a new proposal
      * @param title Proposal title
      * @param description Proposal description
+     * @param votingPeriod Seconds voting stays open
+     * @param quorum Minimum total weight voting (yes + no) for the proposal to pass
+     * @param approvalThreshold Percentage of the turnout the yes weight must exceed
+     *
+     * ## Pattern: Bounded Proposal Parameters
+     * Each proposal carries its own schedule and passing rule; the owner
+     * only sets the ranges they must fall in (votingPeriodBounds,
+     * quorumBounds, approvalThresholdBounds). The
+     * quorum and threshold are public: only the tallies they are compared
+     * with stay encrypted.
      *
      * ## Requirements:
-     * - Caller must have voting power >= MIN_VOTING_POWER
+     * - Caller must have passed the proposer check (encrypted weight >= MIN_VOTING_POWER)
      * - Voting system must be open
+     * - Each parameter must be within its owner-set bounds
      *
      * ## Effects:
-     * - Creates new proposal with voting end time = now + VOTING_DURATION
+     * - Creates new proposal with voting end time = now + votingPeriod
      * - Initializes encrypted vote counters (both start at encrypted 0)
      */
     function createProposal(
         string memory title,
-        string memory description
+        string memory description,
+        uint256 votingPeriod,
+        uint32 quorum,
+        uint32 approvalThreshold
     ) external votingIsOpen {
+        require(canPropose[msg.sender], "Insufficient voting power");
+        require(
+            votingPeriod >= votingPeriodBounds.min && votingPeriod <= votingPeriodBounds.max,
+            "Voting period out of bounds"
+        );
+        require(quorum >= quorumBounds.min && quorum <= quorumBounds.max, "Quorum out of bounds");
         require(
-            voterWeight[msg.sender] >= MIN_VOTING_POWER,
-            "Insufficient voting power"
+            approvalThreshold >= approvalThresholdBounds.min && approvalThreshold <= approvalThresholdBounds.max,
+            "Approval threshold out of bounds"
         );
 
         proposalCount++;
@@ -145,177 +333,354 @@ contract FHEMVoting is ZamaEthereumConfig {
         newProposal.description = description;
         newProposal.creator = msg.sender;
         newProposal.createdAt = block.timestamp;
-        newProposal.votingEnd = block.timestamp + VOTING_DURATION;
+        newProposal.votingEnd = block.timestamp + votingPeriod;
+        newProposal.quorum = quorum;
+        newProposal.approvalThreshold = approvalThreshold;
         newProposal.active = true;
 
         // Initialize encrypted vote counts to 0
-        // These will be updated with FHE operations as votes are revealed
-        newProposal.encryptedYesCount = FHE.asEuint32(0);
-        newProposal.encryptedNoCount = FHE.asEuint32(0);
+        // These will be updated with FHE operations as ballots are cast
+        newProposal.encryptedYesCount = FHE.asEuint64(0);
+        newProposal.encryptedNoCount = FHE.asEuint64(0);
+        FHE.allowThis(newProposal.encryptedYesCount);
+        FHE.allowThis(newProposal.encryptedNoCount);
 
         emit ProposalCreated(proposalId, title, msg.sender, newProposal.votingEnd);
     }
 
     /**
-     * @notice Commit a vote (Phase 1: Privacy phase)
+     * @notice Create a multiple-choice proposal, voted on with encrypted option indexes
+     * @param title Proposal title
+     * @param description Proposal description
+     * @param options Labels of the options, indexed from 0
+     * @param votingPeriod Seconds voting stays open
+     * @param revealTallies Whether finalization reveals every option's tally, not just the winner
+     *
+     * ## Requirements:
+     * - Caller must have passed the proposer check (encrypted weight >= MIN_VOTING_POWER)
+     * - Voting system must be open
+     * - Between 2 and MAX_OPTIONS options
+     * - Voting period must be within its owner-set bounds
+     *
+     * ## Effects:
+     * - Creates new proposal with one encrypted tally per option, all at 0
+     */
+    function createChoiceProposal(
+        string memory title,
+        string memory description,
+        string[] memory options,
+        uint256 votingPeriod,
+        bool revealTallies
+    ) external votingIsOpen {
+        require(canPropose[msg.sender], "Insufficient voting power");
+        require(options.length >= 2 && options.length <= MAX_OPTIONS, "Invalid option count");
+        require(
+            votingPeriod >= votingPeriodBounds.min && votingPeriod <= votingPeriodBounds.max,
+            "Voting period out of bounds"
+        );
+
+        proposalCount++;
+        uint256 proposalId = proposalCount;
+        Proposal storage newProposal = proposals[proposalId];
+
+        newProposal.id = proposalId;
+        newProposal.title = title;
+        newProposal.description = description;
+        newProposal.creator = msg.sender;
+        newProposal.createdAt = block.timestamp;
+        newProposal.votingEnd = block.timestamp + votingPeriod;
+        newProposal.revealTallies = revealTallies;
+        newProposal.active = true;
+
+        for (uint256 i = 0; i < options.length; i++) {
+            newProposal.options.push(options[i]);
+            euint64 tally = FHE.asEuint64(0);
+            FHE.allowThis(tally);
+            newProposal.encryptedOptionTallies.push(tally);
+        }
+
+        emit ProposalCreated(proposalId, title, msg.sender, newProposal.votingEnd);
+    }
+
+    /**
+     * @notice Cast an encrypted ballot; the choice is never revealed
      * @param proposalId ID of the proposal
-     * @param voteHash Keccak256 hash of (support, nonce, voter)
+     * @param encryptedSupport Encrypted vote choice (true for yes, false for no)
+     * @param inputProof Zero-knowledge proof attesting correct encryption
+     *
+     * ## Pattern: Encrypted Ballot with FHE.select
+     * The choice stays encrypted from the voter's client to the tallies.
+     * FHE.select adds the voter's weight to one counter and zero to the
+     * other, so both counters change on every ballot and neither shows
+     * which one received the weight:
      *
-     * ## Pattern: Commit-Reveal Mechanism
-     * - Commit phase: Voter submits hash of vote + random nonce
-     * - Reveal phase: Voter reveals actual vote for verification
-     * - Prevents vote selling and coercion
+     * {{snippet #encrypted-ballot-tally}}
+     *
+     * There is no reveal step and no plaintext choice in calldata, storage
+     * or events.
      *
      * ## Requirements:
-     * - Voter must have voting power > 0
-     * - Proposal must exist and be active
+     * - Voter must have been assigned a weight
+     * - Proposal must exist, be active and be a yes/no proposal
      * - Current time must be within voting period
-     * - Voter must not have already voted
+     * - Voter must not have voted on the proposal
      */
-    function commitVote(
+    function castEncryptedVote(
         uint256 proposalId,
-        bytes32 voteHash
+        externalEbool encryptedSupport,
+        bytes calldata inputProof
     ) external votingIsOpen {
-        require(voterWeight[msg.sender] > 0, "No voting permission");
+        require(isVoter[msg.sender], "No voting permission");
         require(proposalId <= proposalCount && proposalId > 0, "Proposal does not exist");
 
         Proposal storage proposal = proposals[proposalId];
         require(proposal.active, "Proposal not active");
+        require(proposal.options.length == 0, "Not a yes/no proposal");
         require(block.timestamp < proposal.votingEnd, "Voting period ended");
-        require(
-            voteCommitments[proposalId][msg.sender].voteHash == bytes32(0),
-            "Vote already committed"
-        );
+        require(!encryptedVoteCast[proposalId][msg.sender], "Vote already cast");
+
+        encryptedVoteCast[proposalId][msg.sender] = true;
+
+        // Verify the encrypted choice and its binding to this contract and caller
+        ebool support = FHE.fromExternal(encryptedSupport, inputProof);
+        euint64 weight = FHE.asEuint64(voterWeight[msg.sender]);
+        euint64 zero = FHE.asEuint64(0);
+
+        // snippet-start: encrypted-ballot-tally
+        proposal.encryptedYesCount = FHE.add(proposal.encryptedYesCount, FHE.select(support, weight, zero));
+        proposal.encryptedNoCount = FHE.add(proposal.encryptedNoCount, FHE.select(support, zero, weight));
+        // snippet-end: encrypted-ballot-tally
 
-        voteCommitments[proposalId][msg.sender].voteHash = voteHash;
+        // Only the contract can use the running tallies
+        FHE.allowThis(proposal.encryptedYesCount);
+        FHE.allowThis(proposal.encryptedNoCount);
 
-        emit VoteCommitted(proposalId, msg.sender, voteHash);
+        emit EncryptedVoteCast(proposalId, msg.sender);
     }
 
     /**
-     * @notice Reveal and tally a vote (Phase 2: Tally phase)
+     * @notice Cast an encrypted ballot on a multiple-choice proposal
      * @param proposalId ID of the proposal
-     * @param support True for yes vote, false for no vote
-     * @param nonce Random nonce used during commit phase
+     * @param encryptedOption Encrypted index of the chosen option
+     * @param inputProof Zero-knowledge proof attesting correct encryption
      *
-     * ## FHEVM Integration Pattern:
-     * This function demonstrates encrypted arithmetic on ballots:
-     * 1. Verify vote commitment matches hash
-     * 2. Create encrypted weight value
-     * 3. Add to encrypted vote counter using FHE.add
-     * 4. Grant permissions with FHE.allowThis and FHE.allow
+     * ## Pattern: Encrypted Index with FHE.eq and FHE.select
+     * The chosen index is compared with every option, and each tally gets
+     * either the voter's weight or zero. Every tally changes on every
+     * ballot, so none of them shows which option was chosen:
      *
-     * ## Security Notes:
-     * - Vote hash verification prevents tampering
-     * - FHE.allowThis() grants contract permission to encrypted values
-     * - FHE.allow() grants user permission for decryption
+     * {{snippet #encrypted-choice-tally}}
+     *
+     * ## Pitfall: Out-of-Range Index
+     * An index past the last option matches none of them. The contract
+     * can't reject it without decrypting the ballot, so it counts as cast,
+     * for no option.
      *
      * ## Requirements:
-     * - Voting period must have ended
-     * - Vote hash must match commitment
-     * - Voter must not have already revealed
+     * - Voter must have been assigned a weight
+     * - Proposal must exist, be active and be a multiple-choice proposal
+     * - Current time must be within voting period
+     * - Voter must not have voted on the proposal
      */
-    function revealVote(
+    function castEncryptedChoice(
         uint256 proposalId,
-        bool support,
-        uint256 nonce
-    ) external {
+        externalEuint8 encryptedOption,
+        bytes calldata inputProof
+    ) external votingIsOpen {
+        require(isVoter[msg.sender], "No voting permission");
         require(proposalId <= proposalCount && proposalId > 0, "Proposal does not exist");
 
         Proposal storage proposal = proposals[proposalId];
-        require(block.timestamp >= proposal.votingEnd, "Voting period not ended");
+        require(proposal.active, "Proposal not active");
+        require(proposal.options.length > 0, "Not a multiple-choice proposal");
+        require(block.timestamp < proposal.votingEnd, "Voting period ended");
+        require(!encryptedVoteCast[proposalId][msg.sender], "Vote already cast");
 
-        VoteCommitment storage commitment = voteCommitments[proposalId][msg.sender];
-        require(commitment.voteHash != bytes32(0), "No vote commitment found");
-        require(!commitment.revealed, "Vote already revealed");
+        encryptedVoteCast[proposalId][msg.sender] = true;
 
-        // Verify vote hash matches commitment
-        bytes32 expectedHash = keccak256(abi.encodePacked(support, nonce, msg.sender));
-        require(expectedHash == commitment.voteHash, "Vote verification failed");
+        euint8 option = FHE.fromExternal(encryptedOption, inputProof);
+        euint64 weight = FHE.asEuint64(voterWeight[msg.sender]);
+        euint64 zero = FHE.asEuint64(0);
 
-        // Mark as revealed to prevent double counting
-        commitment.revealed = true;
+        // snippet-start: encrypted-choice-tally
+        for (uint8 i = 0; i < proposal.options.length; i++) {
+            euint64 counted = FHE.select(FHE.eq(option, i), weight, zero);
+            proposal.encryptedOptionTallies[i] = FHE.add(proposal.encryptedOptionTallies[i], counted);
+            FHE.allowThis(proposal.encryptedOptionTallies[i]);
+        }
+        // snippet-end: encrypted-choice-tally
 
-        uint256 weight = voterWeight[msg.sender];
+        emit EncryptedVoteCast(proposalId, msg.sender);
+    }
 
-        // Create encrypted weight value
-        euint32 encryptedWeight = FHE.asEuint32(uint32(weight));
+    /**
+     * @notice Execute a proposal: compute the encrypted outcome and request its public decryption
+     * @param proposalId ID of the proposal
+     *
+     * ## Pattern: Async Public Decryption
+     * The outcome is computed on the encrypted tallies, as an ebool. The
+     * turnout is the 64-bit sum of the 64-bit tallies, which can't wrap
+     * (each is a sum of 32-bit weights), and the threshold products are
+     * taken in 128 bits, where a 64-bit value times 100 can't overflow:
+     *
+     * {{snippet #encrypted-outcome}}
+     *
+     * FHE.makePubliclyDecryptable lets anyone ask the relayer for its
+     * cleartext and the KMS decryption proof. finalizeProposal then checks
+     * the proof on-chain and records the result. Only the outcome is made
+     * public; the tallies stay encrypted.
+     *
+     * ## Pattern: Encrypted Winner
+     * A multiple-choice proposal's outcome is the index of its highest
+     * tally, found without decrypting any of them:
+     *
+     * {{snippet #encrypted-winner}}
+     *
+     * Only the winner is made publicly decryptable, unless the proposal
+     * was created with revealTallies.
+     *
+     * ## Requirements:
+     * - Voting period must have ended
+     * - Proposal must not be already executed or awaiting decryption
+     * - Proposal must be active
+     */
+    function executeProposal(uint256 proposalId) external {
+        require(proposalId <= proposalCount && proposalId > 0, "Proposal does not exist");
 
-        // Add to appropriate counter using FHE arithmetic
-        if (support) {
-            proposal.encryptedYesCount = FHE.add(
-                proposal.encryptedYesCount,
-                encryptedWeight
-            );
-            // Grant permissions for encrypted value
-            FHE.allowThis(proposal.encryptedYesCount);
-            FHE.allow(proposal.encryptedYesCount, msg.sender);
+        Proposal storage proposal = proposals[proposalId];
+        require(block.timestamp >= proposal.votingEnd, "Voting period not ended");
+        require(!proposal.executed, "Proposal already executed");
+        require(!proposal.decryptionRequested, "Decryption already requested");
+        require(proposal.active, "Proposal not active");
+
+        if (proposal.options.length > 0) {
+            // snippet-start: encrypted-winner
+            euint64 leading = proposal.encryptedOptionTallies[0];
+            euint8 winner = FHE.asEuint8(0);
+            for (uint8 i = 1; i < proposal.options.length; i++) {
+                // Strictly greater, so a tie goes to the lower index
+                ebool ahead = FHE.gt(proposal.encryptedOptionTallies[i], leading);
+                leading = FHE.select(ahead, proposal.encryptedOptionTallies[i], leading);
+                winner = FHE.select(ahead, FHE.asEuint8(i), winner);
+            }
+            // snippet-end: encrypted-winner
+
+            proposal.encryptedWinner = FHE.makePubliclyDecryptable(winner);
+            if (proposal.revealTallies) {
+                for (uint256 i = 0; i < proposal.options.length; i++) {
+                    FHE.makePubliclyDecryptable(proposal.encryptedOptionTallies[i]);
+                }
+            }
         } else {
-            proposal.encryptedNoCount = FHE.add(
-                proposal.encryptedNoCount,
-                encryptedWeight
+            // snippet-start: encrypted-outcome
+            euint64 turnout = FHE.add(proposal.encryptedYesCount, proposal.encryptedNoCount);
+            // yes * 100 > turnout * approvalThreshold
+            ebool approved = FHE.gt(
+                FHE.mul(FHE.asEuint128(proposal.encryptedYesCount), uint128(100)),
+                FHE.mul(FHE.asEuint128(turnout), uint128(proposal.approvalThreshold))
             );
-            FHE.allowThis(proposal.encryptedNoCount);
-            FHE.allow(proposal.encryptedNoCount, msg.sender);
+            ebool passed = FHE.and(approved, FHE.ge(turnout, uint64(proposal.quorum)));
+            // snippet-end: encrypted-outcome
+
+            proposal.encryptedPassed = FHE.makePubliclyDecryptable(passed);
         }
 
-        emit VoteRevealed(proposalId, msg.sender, support, weight);
+        proposal.decryptionRequested = true;
+
+        emit DecryptionRequested(proposalId, _outcomeHandles(proposal));
     }
 
     /**
-     * @notice Execute a proposal (requires manual decryption of results)
+     * @notice Record the decrypted outcome of a proposal, verified against the KMS proof
      * @param proposalId ID of the proposal
+     * @param abiEncodedClearValues ABI-encoded cleartexts of the handles in DecryptionRequested
+     * @param decryptionProof KMS signatures over the handles and their cleartexts
+     *
+     * ## Pattern: Verifying a Public Decryption
+     * Anyone can submit the relayer's result, since FHE.checkSignatures
+     * reverts unless the KMS signed exactly these cleartexts for the
+     * proposal's outcome handles:
+     *
+     * {{snippet #verify-outcome}}
      *
-     * ## Decryption Note:
-     * FHEVM uses relayer-based decryption:
-     * 1. Proposal enters execution phase
-     * 2. User requests decryption of encrypted vote counts via relayer
-     * 3. Relayer returns plaintext results
-     * 4. Off-chain: Compare decrypted yesVotes > noVotes to determine outcome
+     * A yes/no proposal's cleartext is its passed bool. A multiple-choice
+     * proposal's is the winning index, then the tallies if revealed; it
+     * emits WinnerRevealed instead of ProposalExecuted.
      *
      * ## Requirements:
-     * - Reveal period must have ended (voting + 1 day buffer)
+     * - Decryption must have been requested by executeProposal
      * - Proposal must not be already executed
-     * - Proposal must be active
+     * - The proof must match the outcome handle and cleartext
      */
-    function executeProposal(uint256 proposalId) external {
+    function finalizeProposal(
+        uint256 proposalId,
+        bytes calldata abiEncodedClearValues,
+        bytes calldata decryptionProof
+    ) external {
         require(proposalId <= proposalCount && proposalId > 0, "Proposal does not exist");
 
         Proposal storage proposal = proposals[proposalId];
-        require(
-            block.timestamp >= proposal.votingEnd + 1 days,
-            "Reveal period not ended"
-        );
+        require(proposal.decryptionRequested, "Decryption not requested");
         require(!proposal.executed, "Proposal already executed");
-        require(proposal.active, "Proposal not active");
+
+        // snippet-start: verify-outcome
+        bytes32[] memory handles = _outcomeHandles(proposal);
+        FHE.checkSignatures(handles, abiEncodedClearValues, decryptionProof);
+        // snippet-end: verify-outcome
 
         proposal.executed = true;
 
-        emit ProposalExecuted(proposalId, true, block.timestamp);
+        if (proposal.options.length > 0) {
+            // One 32-byte word per handle: the winner, then the tallies if revealed
+            proposal.winningOption = uint8(uint256(bytes32(abiEncodedClearValues[0:32])));
+            for (uint256 i = 1; i < handles.length; i++) {
+                proposal.optionTallies.push(uint64(uint256(bytes32(abiEncodedClearValues[32 * i:32 * (i + 1)]))));
+            }
+            emit WinnerRevealed(proposalId, proposal.winningOption, proposal.optionTallies);
+            return;
+        }
+
+        bool passed = abi.decode(abiEncodedClearValues, (bool));
+        proposal.passed = passed;
+
+        emit ProposalExecuted(proposalId, passed, block.timestamp);
     }
 
     /**
-     * @notice Generate vote commitment hash
-     * @param support True for yes, false for no
-     * @param nonce Random nonce value
-     * @return Hash of (support, nonce, msg.sender)
-     *
-     * ## Pattern: Hash Commitment
-     * - Prevents vote prediction
-     * - Voter must remember nonce for reveal phase
-     * - Should use cryptographically secure random nonce
+     * @dev The handles executeProposal makes publicly decryptable, in the
+     * order finalizeProposal expects their cleartexts
      */
-    function generateVoteHash(
-        bool support,
-        uint256 nonce
-    ) external view returns (bytes32) {
-        return keccak256(abi.encodePacked(support, nonce, msg.sender));
+    function _outcomeHandles(Proposal storage proposal) internal view returns (bytes32[] memory handles) {
+        if (proposal.options.length == 0) {
+            handles = new bytes32[](1);
+            handles[0] = FHE.toBytes32(proposal.encryptedPassed);
+            return handles;
+        }
+
+        uint256 revealedTallies = proposal.revealTallies ? proposal.options.length : 0;
+        handles = new bytes32[](1 + revealedTallies);
+        handles[0] = FHE.toBytes32(proposal.encryptedWinner);
+        for (uint256 i = 0; i < revealedTallies; i++) {
+            handles[i + 1] = FHE.toBytes32(proposal.encryptedOptionTallies[i]);
+        }
     }
 
     /**
      * @notice Get proposal information
      * @param proposalId ID of the proposal
-     * @return Proposal details (note: encrypted vote counts are not readable here)
+     * @return id Proposal ID
+     * @return title Proposal title
+     * @return description Proposal description
+     * @return creator Address that created the proposal
+     * @return createdAt Creation timestamp
+     * @return votingEnd End of the voting period
+     * @return quorum Minimum total weight voting for the proposal to pass
+     * @return approvalThreshold Percentage of the turnout the yes weight must exceed
+     * @return executed Whether the proposal has been executed
+     * @return active Whether the proposal is active
+     * @return passed Whether the proposal passed (meaningful once executed)
+     *
+     * @dev Encrypted vote counts are not readable here
      */
     function getProposal(
         uint256 proposalId
@@ -329,8 +694,11 @@ contract FHEMVoting is ZamaEthereumConfig {
             address creator,
             uint256 createdAt,
             uint256 votingEnd,
+            uint32 quorum,
+            uint32 approvalThreshold,
             bool executed,
-            bool active
+            bool active,
+            bool passed
         )
     {
         require(proposalId <= proposalCount && proposalId > 0, "Proposal does not exist");
@@ -342,29 +710,71 @@ contract FHEMVoting is ZamaEthereumConfig {
             proposal.creator,
             proposal.createdAt,
             proposal.votingEnd,
+            proposal.quorum,
+            proposal.approvalThreshold,
             proposal.executed,
-            proposal.active
+            proposal.active,
+            proposal.passed
         );
     }
 
     /**
-     * @notice Check if user has voted on a proposal
+     * @notice Get the encrypted vote counts of a proposal
      * @param proposalId ID of the proposal
-     * @param user Address of the user
-     * @return True if user has committed a vote
+     * @return yesCount Encrypted total weight voting yes
+     * @return noCount Encrypted total weight voting no
+     *
+     * @dev Only the contract can use them; executeProposal makes only the outcome public
      */
-    function hasUserVoted(uint256 proposalId, address user) external view returns (bool) {
-        return voteCommitments[proposalId][user].voteHash != bytes32(0);
+    function getEncryptedTallies(uint256 proposalId) external view returns (euint64 yesCount, euint64 noCount) {
+        require(proposalId <= proposalCount && proposalId > 0, "Proposal does not exist");
+        Proposal storage proposal = proposals[proposalId];
+        return (proposal.encryptedYesCount, proposal.encryptedNoCount);
+    }
+
+    /**
+     * @notice Get a voter's encrypted voting weight
+     * @param voter Address of the voter
+     * @return Encrypted weight; only the voter (and the contract) can decrypt it
+     */
+    function getVoterWeight(address voter) external view returns (euint32) {
+        return voterWeight[voter];
     }
 
     /**
-     * @notice Check if user has revealed their vote
+     * @notice Get the option labels of a multiple-choice proposal
+     * @param proposalId ID of the proposal
+     * @return Labels by option index; empty for a yes/no proposal
+     */
+    function getOptions(uint256 proposalId) external view returns (string[] memory) {
+        require(proposalId <= proposalCount && proposalId > 0, "Proposal does not exist");
+        return proposals[proposalId].options;
+    }
+
+    /**
+     * @notice Get the finalized result of a multiple-choice proposal
+     * @param proposalId ID of the proposal
+     * @return winningOption Index of the option with the highest tally
+     * @return tallies Every option's tally, or empty unless the proposal reveals them
+     */
+    function getWinner(
+        uint256 proposalId
+    ) external view returns (uint8 winningOption, uint64[] memory tallies) {
+        require(proposalId <= proposalCount && proposalId > 0, "Proposal does not exist");
+        Proposal storage proposal = proposals[proposalId];
+        require(proposal.options.length > 0, "Not a multiple-choice proposal");
+        require(proposal.executed, "Winner not revealed");
+        return (proposal.winningOption, proposal.optionTallies);
+    }
+
+    /**
+     * @notice Check if user has voted on a proposal
      * @param proposalId ID of the proposal
      * @param user Address of the user
-     * @return True if user has revealed their vote
+     * @return True if user has cast an encrypted ballot
      */
-    function hasUserRevealed(uint256 proposalId, address user) external view returns (bool) {
-        return voteCommitments[proposalId][user].revealed;
+    function hasUserVoted(uint256 proposalId, address user) external view returns (bool) {
+        return encryptedVoteCast[proposalId][user];
     }
 
     /**
@@ -392,12 +802,12 @@ contract FHEMVoting is ZamaEthereumConfig {
         if (proposal.executed) {
             return "Executed";
         }
+        if (proposal.decryptionRequested) {
+            return "Awaiting decryption";
+        }
         if (block.timestamp < proposal.votingEnd) {
             return "Voting in progress";
         }
-        if (block.timestamp < proposal.votingEnd + 1 days) {
-            return "Reveal phase";
-        }
         return "Awaiting execution";
     }
 
@@ -0,0 +1,61 @@
+import { deployments, ethers, fhevm } from "hardhat";
+
+/**
+ * Assign encrypted voting weights on a deployed FHEMVoting, as its owner.
+ *
+ *   VOTER_WEIGHTS="0xAbc...=1000,0xDef...=500" npx hardhat run scripts/set-voter-weights.ts --network localhost
+ *
+ * Each weight is encrypted with the FHEVM Hardhat plugin for the contract and
+ * the owner's address, and the batch is set with setMultipleVoterWeights under
+ * one input proof. Weights never appear in the clear on-chain. The contract is
+ * hardhat-deploy's FHEMVoting deployment, or VOTING_ADDRESS when set.
+ */
+
+// One encrypted input holds at most 2048 bits, i.e. 64 euint32 weights
+const BATCH_SIZE = 64;
+
+function parseWeights(value: string | undefined): { voter: string; weight: number }[] {
+  if (!value) {
+    throw new Error('Set VOTER_WEIGHTS to "<address>=<weight>,...", e.g. VOTER_WEIGHTS="0xAbc...=1000,0xDef...=500"');
+  }
+  return value.split(",").map((entry) => {
+    const [voter, weight] = entry.trim().split("=");
+    const parsed = Number(weight);
+    if (!ethers.isAddress(voter)) {
+      throw new Error(`Not an address: ${voter}`);
+    }
+    if (!Number.isInteger(parsed) || parsed < 0 || parsed > 2 ** 32 - 1) {
+      throw new Error(`Weight of ${voter} must be a uint32, got ${weight}`);
+    }
+    return { voter, weight: parsed };
+  });
+}
+
+async function main() {
+  const weights = parseWeights(process.env.VOTER_WEIGHTS);
+  const [owner] = await ethers.getSigners();
+  const address = process.env.VOTING_ADDRESS ?? (await deployments.get("FHEMVoting")).address;
+  const voting = await ethers.getContractAt("FHEMVoting", address, owner);
+
+  // Outside `hardhat test`, the plugin must be set up for the network before encrypting
+  await fhevm.initializeCLIApi();
+
+  for (let start = 0; start < weights.length; start += BATCH_SIZE) {
+    const batch = weights.slice(start, start + BATCH_SIZE);
+    const input = fhevm.createEncryptedInput(address, owner.address);
+    batch.forEach(({ weight }) => input.add32(weight));
+    const { handles, inputProof } = await input.encrypt();
+
+    await (await voting.setMultipleVoterWeights(batch.map(({ voter }) => voter), handles, inputProof)).wait();
+    batch.forEach(({ voter }) => console.log(`Encrypted weight set for ${voter}`));
+  }
+
+  console.log(`${weights.length} weight(s) set on FHEMVoting at ${address}`);
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error(error);
+    process.exit(1);
+  });
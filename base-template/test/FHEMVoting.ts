@@ -1,5 +1,8 @@
+import { FhevmType } from "@fhevm/hardhat-plugin";
+import { anyValue } from "@nomicfoundation/hardhat-chai-matchers/withArgs";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
 import { expect } from "chai";
-import { ethers } from "hardhat";
+import { ethers, fhevm } from "hardhat";
 import { FHEMVoting } from "../types";
 
 /**
@@ -9,16 +12,19 @@ import { FHEMVoting } from "../types";
  * ## Test Categories:
  * - Proposal lifecycle management
  * - Voting permissions and access control
- * - Vote commitment and reveal mechanism
+ * - Encrypted ballots
  * - FHEVM encrypted operations
  * - Error handling and edge cases
  *
  * ## Key Concepts Tested:
- * 1. Encrypted vote aggregation using FHE.add
+ * 1. Encrypted vote aggregation using FHE.add and FHE.select
  * 2. Permission management with FHE.allow and FHE.allowThis
- * 3. Commit-reveal voting pattern for privacy
+ * 3. Encrypted ballots that keep each choice private
  * 4. Weighted voting with different voter powers
  * 5. Time-locked proposal phases
+ * 6. Outcome finalization through public decryption
+ * 7. Multiple-choice ballots with encrypted option indexes
+ * 8. Encrypted voter weights and the encrypted MIN_VOTING_POWER check
  */
 describe("FHEMVoting - Fully Homomorphic Encryption Voting System", () => {
   let votingContract: FHEMVoting;
@@ -28,16 +34,30 @@ describe("FHEMVoting - Fully Homomorphic Encryption Voting System", () => {
   let voter2: any;
   let voter3: any;
 
-  // Helper function to create vote hash
-  const createVoteHash = async (
-    support: boolean,
-    nonce: number,
-    voterAddress: string
-  ): Promise<string> => {
-    return ethers.solidityPackedKeccak256(
-      ["bool", "uint256", "address"],
-      [support, nonce, voterAddress]
-    );
+  // Most proposals: 7-day vote, quorum of 500, yes above 50% of the turnout
+  const VOTING_PERIOD = 7 * 24 * 60 * 60;
+  const PROPOSAL_PARAMS = [VOTING_PERIOD, 500, 50] as const;
+
+  // Encrypts weights as the owner, for one batch assignment
+  const encryptWeights = async (weights: number[]) => {
+    const input = fhevm.createEncryptedInput(await votingContract.getAddress(), owner.address);
+    weights.forEach((weight) => input.add32(weight));
+    return input.encrypt();
+  };
+
+  // Runs the encrypted MIN_VOTING_POWER check for `account` and submits its decryption
+  const checkProposer = async (account: any) => {
+    const receipt = await (await votingContract.connect(account).requestProposerCheck()).wait();
+    const event = receipt!.logs
+      .map((log) => votingContract.interface.parseLog(log))
+      .find((parsed) => parsed?.name === "ProposerCheckRequested");
+    const { abiEncodedClearValues, decryptionProof } = await fhevm.publicDecrypt([event!.args.eligibleHandle]);
+    return votingContract.confirmProposerCheck(account.address, abiEncodedClearValues, decryptionProof);
+  };
+
+  // Tests that move the clock with time.increase only run on the Hardhat network
+  const skipUnlessHardhat = (test: Mocha.Context) => {
+    if (!fhevm.isMock) test.skip();
   };
 
   beforeEach(async () => {
@@ -50,25 +70,32 @@ describe("FHEMVoting - Fully Homomorphic Encryption Voting System", () => {
     await votingContract.waitForDeployment();
 
     // ✅ PATTERN: Batch weight assignment for efficient voter registration
-    // Set voting weights for all participants
+    // Set encrypted voting weights for all participants, under one input proof
+    const weights = await encryptWeights([1000, 500, 300, 200, 100]);
     await votingContract.setMultipleVoterWeights(
       [owner.address, proposer.address, voter1.address, voter2.address, voter3.address],
-      [1000, 500, 300, 200, 100]
+      weights.handles,
+      weights.inputProof
     );
+
+    // The accounts creating proposals pass the encrypted MIN_VOTING_POWER check
+    for (const account of [owner, proposer, voter1]) {
+      await checkProposer(account);
+    }
   });
 
   describe("Proposal Creation and Management", () => {
     /**
      * ## Pattern: Proposal Creation with Voting Power Requirements
      * - Only users with sufficient voting power can create proposals
-     * - Voting period is automatically set to current time + VOTING_DURATION
+     * - Voting period is set to current time + the proposal's voting period
      * - Proposals initialize with zero encrypted vote counts
      */
     it("✅ Should create proposal with valid voting power", async () => {
       const title = "Upgrade Protocol to Version 2";
       const description = "Increase block size limit and improve consensus mechanism";
 
-      const tx = await votingContract.connect(proposer).createProposal(title, description);
+      const tx = await votingContract.connect(proposer).createProposal(title, description, ...PROPOSAL_PARAMS);
       const receipt = await tx.wait();
 
       // Verify proposal was created
@@ -89,16 +116,16 @@ describe("FHEMVoting - Fully Homomorphic Encryption Voting System", () => {
       const [, , , , , lowPowerUser] = await ethers.getSigners();
 
       await expect(
-        votingContract.connect(lowPowerUser).createProposal("Malicious Proposal", "Description")
+        votingContract.connect(lowPowerUser).createProposal("Malicious Proposal", "Description", ...PROPOSAL_PARAMS)
       ).to.be.revertedWith("Insufficient voting power");
     });
 
     it("✅ Should allow multiple proposals", async () => {
       // Create first proposal
-      await votingContract.connect(proposer).createProposal("Proposal 1", "Description 1");
+      await votingContract.connect(proposer).createProposal("Proposal 1", "Description 1", ...PROPOSAL_PARAMS);
 
       // Create second proposal
-      await votingContract.connect(voter1).createProposal("Proposal 2", "Description 2");
+      await votingContract.connect(voter1).createProposal("Proposal 2", "Description 2", ...PROPOSAL_PARAMS);
 
       const proposal1 = await votingContract.getProposal(1);
       const proposal2 = await votingContract.getProposal(2);
@@ -111,306 +138,603 @@ describe("FHEMVoting - Fully Homomorphic Encryption Voting System", () => {
 
     it("✅ Should correctly set voting end time", async () => {
       const currentTime = await votingContract.getCurrentTime();
-      const VOTING_DURATION = 7 * 24 * 60 * 60; // 7 days
 
-      await votingContract.connect(proposer).createProposal("Test", "Test");
+      await votingContract.connect(proposer).createProposal("Test", "Test", ...PROPOSAL_PARAMS);
       const proposal = await votingContract.getProposal(1);
 
       // Verify voting end is approximately 7 days from creation
       expect(proposal.votingEnd).to.be.greaterThan(currentTime);
-      expect(proposal.votingEnd).to.be.lessThanOrEqual(currentTime + VOTING_DURATION + 10); // +10 for gas variations
+      expect(proposal.votingEnd).to.be.lessThanOrEqual(currentTime + BigInt(VOTING_PERIOD + 10)); // +10 for gas variations
     });
   });
 
-  describe("Vote Commitment - Phase 1 (Privacy Phase)", () => {
+  describe("Proposal Parameters", () => {
     /**
-     * ## Pattern: Commit-Reveal Voting
-     * Phase 1: Voters submit hash commitment to hide actual vote
-     * - Prevents vote selling (buyer can't verify delivery)
-     * - Prevents coercion (voter can claim false vote commitment)
-     * - Enables strategic protection (no early results available)
+     * ## Pattern: Bounded Proposal Parameters
+     * Each proposal is created with its own voting period, quorum and
+     * approval threshold:
+     * ```typescript
+     * await votingContract.createProposal(title, description, votingPeriod, quorum, approvalThreshold);
+     * ```
+     * The owner sets the range each parameter must fall in.
      */
-    beforeEach(async () => {
-      await votingContract.connect(proposer).createProposal("Test Proposal", "Test Description");
+    it("✅ Should store the proposal's own parameters", async () => {
+      await votingContract.connect(proposer).createProposal("Test", "Test", 2 * 60 * 60, 700, 66);
+      const proposal = await votingContract.getProposal(1);
+
+      expect(proposal.votingEnd - proposal.createdAt).to.equal(2 * 60 * 60);
+      expect(proposal.quorum).to.equal(700);
+      expect(proposal.approvalThreshold).to.equal(66);
     });
 
-    it("✅ Should commit vote with valid hash", async () => {
-      const nonce = 12345;
-      const voteHash = await createVoteHash(true, nonce, voter1.address);
+    it("✅ Should follow the proposal's own voting period", async function () {
+      skipUnlessHardhat(this);
+      await votingContract.connect(proposer).createProposal("Test", "Test", 2 * 60 * 60, 500, 50);
+      expect(await votingContract.getVotingStatus(1)).to.equal("Voting in progress");
 
-      const tx = await votingContract.connect(voter1).commitVote(1, voteHash);
-      const receipt = await tx.wait();
+      await time.increase(2 * 60 * 60);
+      expect(await votingContract.getVotingStatus(1)).to.equal("Awaiting execution");
+      await expect(votingContract.executeProposal(1)).to.emit(votingContract, "DecryptionRequested");
+    });
 
-      // Check vote commitment was recorded
-      const hasVoted = await votingContract.hasUserVoted(1, voter1.address);
-      expect(hasVoted).to.be.true;
+    it("✅ Owner can change the parameter bounds", async () => {
+      await votingContract.setVotingPeriodBounds(60, 90 * 24 * 60 * 60);
+      await votingContract.setQuorumBounds(100, 1000);
+      await votingContract.setApprovalThresholdBounds(60, 75);
 
-      // Verify not yet revealed
-      const hasRevealed = await votingContract.hasUserRevealed(1, voter1.address);
-      expect(hasRevealed).to.be.false;
+      const bounds = await votingContract.approvalThresholdBounds();
+      expect(bounds.min).to.equal(60);
+      expect(bounds.max).to.equal(75);
 
-      // Verify event was emitted
-      expect(receipt?.logs.length).to.be.greaterThan(0);
+      await votingContract.connect(proposer).createProposal("Test", "Test", 60, 100, 75);
+      const proposal = await votingContract.getProposal(1);
+      expect(proposal.votingEnd - proposal.createdAt).to.equal(60);
     });
 
-    it("❌ Should prevent vote commitment from user without voting power", async () => {
-      const [, , , , , lowPowerUser] = await ethers.getSigners();
-      const nonce = 12345;
-      const voteHash = await createVoteHash(true, nonce, lowPowerUser.address);
+    it("❌ Should reject a voting period out of bounds", async () => {
+      await expect(
+        votingContract.connect(proposer).createProposal("Test", "Test", 60, 500, 50)
+      ).to.be.revertedWith("Voting period out of bounds");
+      await expect(
+        votingContract.connect(proposer).createProposal("Test", "Test", 31 * 24 * 60 * 60, 500, 50)
+      ).to.be.revertedWith("Voting period out of bounds");
+    });
+
+    it("❌ Should reject a quorum out of bounds", async () => {
+      await votingContract.setQuorumBounds(100, 1000);
+
+      await expect(
+        votingContract.connect(proposer).createProposal("Test", "Test", VOTING_PERIOD, 50, 50)
+      ).to.be.revertedWith("Quorum out of bounds");
+    });
 
-      await expect(votingContract.connect(lowPowerUser).commitVote(1, voteHash)).to.be.revertedWith(
-        "No voting permission"
+    it("❌ Should reject an approval threshold out of bounds", async () => {
+      await expect(
+        votingContract.connect(proposer).createProposal("Test", "Test", VOTING_PERIOD, 500, 40)
+      ).to.be.revertedWith("Approval threshold out of bounds");
+    });
+
+    it("❌ Non-owner cannot change the parameter bounds", async () => {
+      await expect(votingContract.connect(proposer).setQuorumBounds(0, 10)).to.be.revertedWith(
+        "Only owner can operate"
       );
     });
 
-    it("❌ Should prevent double voting", async () => {
-      const nonce = 12345;
-      const voteHash = await createVoteHash(true, nonce, voter1.address);
+    it("❌ Should reject invalid bounds", async () => {
+      await expect(votingContract.setVotingPeriodBounds(0, 60)).to.be.revertedWith("Invalid bounds");
+      await expect(votingContract.setQuorumBounds(60, 30)).to.be.revertedWith("Invalid bounds");
+    });
+
+    /**
+     * ## Pitfall: Unreachable Threshold
+     * The yes weight must exceed the threshold share of the turnout, so a
+     * 100% threshold could never pass and is rejected as a bound.
+     */
+    it("⚠️ Should reject a 100% approval threshold bound", async () => {
+      await expect(votingContract.setApprovalThresholdBounds(50, 100)).to.be.revertedWith("Invalid bounds");
+    });
+  });
 
-      // First commit
-      await votingContract.connect(voter1).commitVote(1, voteHash);
+  describe("Encrypted Ballots (FHE.select)", () => {
+    /**
+     * ## Pattern: Encrypted Ballot with FHE.select
+     * The voter encrypts the choice client-side, bound to the contract and
+     * their address, and the contract adds their weight to yes or to no
+     * without ever decrypting it:
+     * ```typescript
+     * const ballot = await fhevm
+     *   .createEncryptedInput(contractAddress, voter.address)
+     *   .addBool(true)
+     *   .encrypt();
+     * await votingContract.connect(voter).castEncryptedVote(1, ballot.handles[0], ballot.inputProof);
+     * ```
+     * These tests run against the FHEVM Hardhat plugin's mock encryption.
+     */
+    let contractAddress: string;
+
+    const castBallot = async (voter: any, support: boolean) => {
+      const ballot = await fhevm.createEncryptedInput(contractAddress, voter.address).addBool(support).encrypt();
+      return votingContract.connect(voter).castEncryptedVote(1, ballot.handles[0], ballot.inputProof);
+    };
+
+    const decryptTallies = async (user: any) => {
+      const [yesHandle, noHandle] = await votingContract.getEncryptedTallies(1);
+      return {
+        yes: await fhevm.userDecryptEuint(FhevmType.euint64, yesHandle, contractAddress, user),
+        no: await fhevm.userDecryptEuint(FhevmType.euint64, noHandle, contractAddress, user),
+      };
+    };
+
+    beforeEach(async function () {
+      if (!fhevm.isMock) {
+        // Mock encryption only exists on the Hardhat network
+        this.skip();
+      }
+      contractAddress = await votingContract.getAddress();
+      await votingContract.connect(proposer).createProposal("Test Proposal", "Test Description", ...PROPOSAL_PARAMS);
+    });
+
+    it("✅ Should not disclose the choice in the ballot event", async () => {
+      await expect(castBallot(voter1, true))
+        .to.emit(votingContract, "EncryptedVoteCast")
+        .withArgs(1, voter1.address);
 
-      // Second commit should fail
-      const differentHash = await createVoteHash(false, 54321, voter1.address);
-      await expect(votingContract.connect(voter1).commitVote(1, differentHash)).to.be.revertedWith(
-        "Vote already committed"
-      );
+      expect(await votingContract.hasUserVoted(1, voter1.address)).to.be.true;
+      expect(await votingContract.encryptedVoteCast(1, voter1.address)).to.be.true;
     });
 
-    it("❌ Should prevent commit after voting period ends", async () => {
-      // Fast forward time past voting period
-      const votingDuration = 7 * 24 * 60 * 60; // 7 days
-      await ethers.provider.send("hardhat_mine", ["0x" + (votingDuration / 13).toString(16)]); // Approximate blocks
+    it("❌ Should prevent casting a second ballot", async () => {
+      await castBallot(voter1, true);
 
-      const nonce = 12345;
-      const voteHash = await createVoteHash(true, nonce, voter1.address);
+      await expect(castBallot(voter1, false)).to.be.revertedWith("Vote already cast");
+    });
 
-      await expect(votingContract.connect(voter1).commitVote(1, voteHash)).to.be.revertedWith(
-        "Voting period ended"
-      );
+    it("❌ Should reject a ballot from user without voting power", async () => {
+      const [, , , , , lowPowerUser] = await ethers.getSigners();
+
+      await expect(castBallot(lowPowerUser, true)).to.be.revertedWith("No voting permission");
     });
 
-    it("✅ Should allow multiple voters to commit", async () => {
-      const nonce1 = 11111;
-      const nonce2 = 22222;
-      const nonce3 = 33333;
+    it("❌ Should reject a ballot after voting period ends", async () => {
+      await time.increase(7 * 24 * 60 * 60);
 
-      const hash1 = await createVoteHash(true, nonce1, voter1.address);
-      const hash2 = await createVoteHash(false, nonce2, voter2.address);
-      const hash3 = await createVoteHash(true, nonce3, voter3.address);
+      await expect(castBallot(voter1, true)).to.be.revertedWith("Voting period ended");
+    });
 
-      await votingContract.connect(voter1).commitVote(1, hash1);
-      await votingContract.connect(voter2).commitVote(1, hash2);
-      await votingContract.connect(voter3).commitVote(1, hash3);
+    it("❌ Should reject a ballot encrypted for another voter", async () => {
+      const ballot = await fhevm.createEncryptedInput(contractAddress, voter2.address).addBool(true).encrypt();
 
-      expect(await votingContract.hasUserVoted(1, voter1.address)).to.be.true;
-      expect(await votingContract.hasUserVoted(1, voter2.address)).to.be.true;
-      expect(await votingContract.hasUserVoted(1, voter3.address)).to.be.true;
+      await expect(votingContract.connect(voter1).castEncryptedVote(1, ballot.handles[0], ballot.inputProof)).to.be
+        .reverted;
     });
 
-    it("❌ Should prevent commit for non-existent proposal", async () => {
-      const nonce = 12345;
-      const voteHash = await createVoteHash(true, nonce, voter1.address);
+    /**
+     * ## Pitfall: Decrypting Tallies
+     * Access to a running tally would let anyone diff it between two
+     * ballots and learn the choice in between, and the final tallies show
+     * how the weight split. Only the contract can use the tallies, before
+     * and after execution; only the outcome is made public.
+     */
+    it("⚠️ Should not let voters decrypt the running tallies", async () => {
+      await castBallot(voter1, true);
 
-      await expect(votingContract.connect(voter1).commitVote(999, voteHash)).to.be.revertedWith(
-        "Proposal does not exist"
-      );
+      let decrypted = true;
+      try {
+        await decryptTallies(voter1);
+      } catch {
+        decrypted = false;
+      }
+      expect(decrypted).to.be.false;
+    });
+
+    it("⚠️ Should not let the executor decrypt the final tallies", async () => {
+      await castBallot(voter1, true);
+      await castBallot(voter2, false);
+
+      await time.increase(VOTING_PERIOD);
+      await votingContract.executeProposal(1);
+
+      let decrypted = true;
+      try {
+        await decryptTallies(owner);
+      } catch {
+        decrypted = false;
+      }
+      expect(decrypted).to.be.false;
     });
   });
 
-  describe("Vote Reveal - Phase 2 (Tally Phase)", () => {
+  describe("Proposal Execution", () => {
     /**
-     * ## Pattern: FHEVM Encrypted Vote Tallying
-     * Phase 2: Voters reveal actual vote and verify commitment
-     * - Voter provides original vote choice and nonce
-     * - Contract verifies hash = keccak256(choice, nonce, voter)
-     * - Encrypted vote count updated using FHE.add operation
-     * - FHE.allowThis() and FHE.allow() grant permissions
+     * ## Pattern: Multi-Phase Governance Execution
+     * 1. Voting phase: Voters cast encrypted ballots
+     * 2. Execution phase: The encrypted outcome is computed and its
+     *    public decryption requested; finalizeProposal records it
      */
     beforeEach(async () => {
-      await votingContract.connect(proposer).createProposal("Test Proposal", "Test Description");
+      await votingContract.connect(proposer).createProposal("Test Proposal", "Test Description", ...PROPOSAL_PARAMS);
+    });
 
-      // Setup vote commitments for all voters
-      const nonce1 = 11111;
-      const nonce2 = 22222;
-      const nonce3 = 33333;
+    it("❌ Should prevent execution during voting period", async () => {
+      await expect(votingContract.executeProposal(1)).to.be.revertedWith(
+        "Voting period not ended"
+      );
+    });
 
-      const hash1 = await createVoteHash(true, nonce1, voter1.address);
-      const hash2 = await createVoteHash(false, nonce2, voter2.address);
-      const hash3 = await createVoteHash(true, nonce3, voter3.address);
+    it("✅ Should allow execution after voting period", async function () {
+      skipUnlessHardhat(this);
+      // End voting period
+      await time.increase(VOTING_PERIOD);
 
-      await votingContract.connect(voter1).commitVote(1, hash1);
-      await votingContract.connect(voter2).commitVote(1, hash2);
-      await votingContract.connect(voter3).commitVote(1, hash3);
+      await expect(votingContract.executeProposal(1)).to.emit(votingContract, "DecryptionRequested");
 
-      // Store nonces for reveal phase
-      this.nonces = { voter1: nonce1, voter2: nonce2, voter3: nonce3 };
+      // Executed only once the decrypted outcome is submitted
+      const proposal = await votingContract.getProposal(1);
+      expect(proposal.executed).to.be.false;
+      expect(await votingContract.getVotingStatus(1)).to.equal("Awaiting decryption");
     });
 
-    it("❌ Should prevent reveal before voting period ends", async () => {
-      const nonce = 11111;
-      await expect(votingContract.connect(voter1).revealVote(1, true, nonce)).to.be.revertedWith(
-        "Voting period not ended"
+    it("❌ Should prevent double execution", async function () {
+      skipUnlessHardhat(this);
+      await time.increase(VOTING_PERIOD);
+
+      // First execution
+      await votingContract.executeProposal(1);
+
+      // Second execution should fail
+      await expect(votingContract.executeProposal(1)).to.be.revertedWith(
+        "Decryption already requested"
       );
     });
+  });
 
-    it("✅ Should reveal vote with correct hash verification", async () => {
-      // Fast forward to end voting period
-      const votingDuration = 7 * 24 * 60 * 60;
-      await ethers.provider.send("hardhat_mine", ["0x" + (votingDuration / 12).toString(16)]);
+  describe("Outcome Finalization (Public Decryption)", () => {
+    /**
+     * ## Pattern: Async Public Decryption
+     * 1. executeProposal computes whether yes exceeds the approval threshold
+     *    and the turnout meets the quorum, as an ebool, and marks it
+     *    publicly decryptable
+     * 2. Anyone fetches its cleartext and the KMS proof from the relayer:
+     * ```typescript
+     * const { abiEncodedClearValues, decryptionProof } = await fhevm.publicDecrypt([passedHandle]);
+     * ```
+     * 3. finalizeProposal verifies the proof with FHE.checkSignatures and
+     *    emits the real outcome
+     *
+     * These tests run against the FHEVM Hardhat plugin's mock decryption.
+     */
+    let contractAddress: string;
+
+    const castBallot = async (voter: any, support: boolean, proposalId = 1) => {
+      const ballot = await fhevm.createEncryptedInput(contractAddress, voter.address).addBool(support).encrypt();
+      await votingContract.connect(voter).castEncryptedVote(proposalId, ballot.handles[0], ballot.inputProof);
+    };
+
+    // Executes the proposal and returns the handle of its encrypted outcome
+    const requestOutcome = async (proposalId = 1): Promise<string> => {
+      await time.increase(VOTING_PERIOD);
+      const receipt = await (await votingContract.executeProposal(proposalId)).wait();
+      const event = receipt!.logs
+        .map((log) => votingContract.interface.parseLog(log))
+        .find((parsed) => parsed?.name === "DecryptionRequested");
+      return event!.args.handles[0];
+    };
+
+    const finalize = async (passedHandle: string, proposalId = 1) => {
+      const { abiEncodedClearValues, decryptionProof } = await fhevm.publicDecrypt([passedHandle]);
+      return votingContract.finalizeProposal(proposalId, abiEncodedClearValues, decryptionProof);
+    };
+
+    beforeEach(async function () {
+      if (!fhevm.isMock) {
+        // The mock decryption oracle only exists on the Hardhat network
+        this.skip();
+      }
+      contractAddress = await votingContract.getAddress();
+      await votingContract.connect(proposer).createProposal("Test Proposal", "Test Description", ...PROPOSAL_PARAMS);
+    });
+
+    it("✅ Should pass when yes outweighs no and quorum is met", async () => {
+      await castBallot(voter1, true); // weight 300
+      await castBallot(voter2, false); // weight 200
+      await castBallot(voter3, true); // weight 100
+
+      const passedHandle = await requestOutcome();
+      expect(await fhevm.publicDecryptEbool(passedHandle)).to.be.true;
+
+      await expect(finalize(passedHandle))
+        .to.emit(votingContract, "ProposalExecuted")
+        .withArgs(1, true, anyValue);
 
-      const nonce = 11111;
-      const tx = await votingContract.connect(voter1).revealVote(1, true, nonce);
-      const receipt = await tx.wait();
+      const proposal = await votingContract.getProposal(1);
+      expect(proposal.executed).to.be.true;
+      expect(proposal.passed).to.be.true;
+      expect(await votingContract.getVotingStatus(1)).to.equal("Executed");
+    });
 
-      // Verify vote was revealed
-      const hasRevealed = await votingContract.hasUserRevealed(1, voter1.address);
-      expect(hasRevealed).to.be.true;
+    it("✅ Should fail when no outweighs yes", async () => {
+      await castBallot(voter1, false); // weight 300
+      await castBallot(voter2, true); // weight 200
 
-      // Verify event was emitted
-      expect(receipt?.logs.length).to.be.greaterThan(0);
+      await expect(finalize(await requestOutcome()))
+        .to.emit(votingContract, "ProposalExecuted")
+        .withArgs(1, false, anyValue);
+
+      const proposal = await votingContract.getProposal(1);
+      expect(proposal.executed).to.be.true;
+      expect(proposal.passed).to.be.false;
     });
 
-    it("❌ Should reject reveal with incorrect nonce", async () => {
-      const votingDuration = 7 * 24 * 60 * 60;
-      await ethers.provider.send("hardhat_mine", ["0x" + (votingDuration / 12).toString(16)]);
+    it("✅ Should weigh ballots by voter weight, not by head count", async () => {
+      await castBallot(proposer, true); // weight 500
+      await castBallot(voter1, false); // weight 300
+      await castBallot(voter3, false); // weight 100
 
-      const wrongNonce = 99999;
-      await expect(votingContract.connect(voter1).revealVote(1, true, wrongNonce)).to.be.revertedWith(
-        "Vote verification failed"
-      );
+      await expect(finalize(await requestOutcome()))
+        .to.emit(votingContract, "ProposalExecuted")
+        .withArgs(1, true, anyValue);
     });
 
-    it("❌ Should reject reveal with different vote choice", async () => {
-      const votingDuration = 7 * 24 * 60 * 60;
-      await ethers.provider.send("hardhat_mine", ["0x" + (votingDuration / 12).toString(16)]);
+    it("❌ Should reject finalization before execution", async () => {
+      await expect(votingContract.finalizeProposal(1, "0x", "0x")).to.be.revertedWith("Decryption not requested");
+    });
 
-      // Originally committed to true, but reveal with false
-      const nonce = 11111;
-      await expect(votingContract.connect(voter1).revealVote(1, false, nonce)).to.be.revertedWith(
-        "Vote verification failed"
-      );
+    it("❌ Should reject a forged outcome", async () => {
+      await castBallot(voter1, false); // weight 300
+      await castBallot(voter2, false); // weight 200
+
+      const passedHandle = await requestOutcome();
+      const { decryptionProof } = await fhevm.publicDecrypt([passedHandle]);
+      const forged = ethers.AbiCoder.defaultAbiCoder().encode(["bool"], [true]);
+
+      await expect(votingContract.finalizeProposal(1, forged, decryptionProof)).to.be.reverted;
     });
 
-    it("❌ Should prevent double reveal", async () => {
-      const votingDuration = 7 * 24 * 60 * 60;
-      await ethers.provider.send("hardhat_mine", ["0x" + (votingDuration / 12).toString(16)]);
+    it("❌ Should prevent finalizing twice", async () => {
+      await castBallot(voter1, true); // weight 300
+      await castBallot(voter2, true); // weight 200
 
-      const nonce = 11111;
+      const passedHandle = await requestOutcome();
+      await finalize(passedHandle);
 
-      // First reveal
-      await votingContract.connect(voter1).revealVote(1, true, nonce);
+      await expect(finalize(passedHandle)).to.be.revertedWith("Proposal already executed");
+    });
 
-      // Second reveal should fail (already revealed)
-      await expect(votingContract.connect(voter1).revealVote(1, true, nonce)).to.be.revertedWith(
-        "Vote already revealed"
-      );
+    /**
+     * ## Pitfall: Quorum
+     * A unanimous vote still fails when the total weight voting is below
+     * quorum; both conditions are combined with FHE.and before decryption.
+     */
+    it("⚠️ Should fail a unanimous vote below quorum", async () => {
+      await castBallot(voter1, true); // weight 300 < quorum (500)
+
+      await expect(finalize(await requestOutcome()))
+        .to.emit(votingContract, "ProposalExecuted")
+        .withArgs(1, false, anyValue);
     });
 
-    it("✅ Should accept multiple reveals in sequence", async () => {
-      const votingDuration = 7 * 24 * 60 * 60;
-      await ethers.provider.send("hardhat_mine", ["0x" + (votingDuration / 12).toString(16)]);
+    it("⚠️ Should fail on a tie", async () => {
+      await castBallot(voter1, true); // weight 300
+      await castBallot(voter2, false); // weight 200
+      await castBallot(voter3, false); // weight 100
+
+      await expect(finalize(await requestOutcome()))
+        .to.emit(votingContract, "ProposalExecuted")
+        .withArgs(1, false, anyValue);
+    });
 
-      // Reveal from voter1 (voted yes, weight 300)
-      await votingContract.connect(voter1).revealVote(1, true, 11111);
+    it("✅ Should pass when yes exceeds a supermajority threshold", async () => {
+      await votingContract
+        .connect(proposer)
+        .createProposal("Supermajority", "Test Description", VOTING_PERIOD, 500, 66);
+      await castBallot(voter1, true, 2); // weight 300
+      await castBallot(voter3, true, 2); // weight 100
+      await castBallot(voter2, false, 2); // weight 200, yes at 66.7%
 
-      // Reveal from voter2 (voted no, weight 200)
-      await votingContract.connect(voter2).revealVote(1, false, 22222);
+      await expect(finalize(await requestOutcome(2), 2))
+        .to.emit(votingContract, "ProposalExecuted")
+        .withArgs(2, true, anyValue);
+    });
 
-      // Reveal from voter3 (voted yes, weight 100)
-      await votingContract.connect(voter3).revealVote(1, true, 33333);
+    it("⚠️ Should fail when yes only reaches the approval threshold", async () => {
+      await votingContract
+        .connect(proposer)
+        .createProposal("Supermajority", "Test Description", VOTING_PERIOD, 500, 60);
+      await castBallot(voter1, true, 2); // weight 300
+      await castBallot(voter2, false, 2); // weight 200, yes at exactly 60%
 
-      // All should be revealed
-      expect(await votingContract.hasUserRevealed(1, voter1.address)).to.be.true;
-      expect(await votingContract.hasUserRevealed(1, voter2.address)).to.be.true;
-      expect(await votingContract.hasUserRevealed(1, voter3.address)).to.be.true;
+      await expect(finalize(await requestOutcome(2), 2))
+        .to.emit(votingContract, "ProposalExecuted")
+        .withArgs(2, false, anyValue);
     });
 
-    it("❌ Should prevent reveal without prior commitment", async () => {
-      const votingDuration = 7 * 24 * 60 * 60;
-      await ethers.provider.send("hardhat_mine", ["0x" + (votingDuration / 12).toString(16)]);
+    /**
+     * ## Pitfall: Wrapping Tallies
+     * FHE.add wraps silently. The tallies are 64 bits wide, so the sum of
+     * 32-bit weights can't wrap; in 32 bits, two maximum weights voting no
+     * would wrap below one voting yes and flip the outcome.
+     */
+    it("⚠️ Should not wrap tallies of maximum weights", async () => {
+      const maxWeight = 2 ** 32 - 1;
+      const weights = await encryptWeights([maxWeight, maxWeight, maxWeight]);
+      await votingContract.setMultipleVoterWeights(
+        [voter1.address, voter2.address, voter3.address],
+        weights.handles,
+        weights.inputProof
+      );
+      await castBallot(voter1, true);
+      await castBallot(voter2, false);
+      await castBallot(voter3, false);
 
-      const [, , , , , nonVoter] = await ethers.getSigners();
-      const nonce = 12345;
+      await expect(finalize(await requestOutcome()))
+        .to.emit(votingContract, "ProposalExecuted")
+        .withArgs(1, false, anyValue);
+    });
 
-      await expect(votingContract.connect(nonVoter).revealVote(1, true, nonce)).to.be.revertedWith(
-        "No vote commitment found"
+    /**
+     * ## Pitfall: Wrapping Turnout
+     * A maximum weight plus 1 is 2^32: a 32-bit turnout would wrap to 0 and
+     * miss the quorum. The turnout is added in 64 bits and the threshold
+     * products are taken in 128 bits, so the proposal passes.
+     */
+    it("⚠️ Should count the turnout of near-maximum weights", async () => {
+      const weights = await encryptWeights([2 ** 32 - 1, 1]);
+      await votingContract.setMultipleVoterWeights(
+        [voter1.address, voter2.address],
+        weights.handles,
+        weights.inputProof
       );
+      await castBallot(voter1, true);
+      await castBallot(voter2, false);
+
+      await expect(finalize(await requestOutcome()))
+        .to.emit(votingContract, "ProposalExecuted")
+        .withArgs(1, true, anyValue);
     });
   });
 
-  describe("Proposal Execution", () => {
+  describe("Multiple-Choice Ballots (FHE.eq)", () => {
     /**
-     * ## Pattern: Multi-Phase Governance Execution
-     * 1. Commit phase: Voters submit encrypted vote commitments
-     * 2. Reveal phase: Voters reveal and tally encrypted votes (1 day buffer)
-     * 3. Execution phase: Proposal can be executed based on results
-     *
-     * Note: Vote counting requires relayer-based decryption
-     * which happens off-chain after reveal phase
+     * ## Pattern: Encrypted Option Index
+     * A multiple-choice proposal keeps one encrypted tally per option. The
+     * voter encrypts the index of their choice:
+     * ```typescript
+     * const ballot = await fhevm.createEncryptedInput(contractAddress, voter.address).add8(option).encrypt();
+     * await votingContract.connect(voter).castEncryptedChoice(proposalId, ballot.handles[0], ballot.inputProof);
+     * ```
+     * Execution finds the winner under encryption. Finalization reveals only
+     * the winner, or every tally if the proposal was created with revealTallies.
      */
-    beforeEach(async () => {
-      await votingContract.connect(proposer).createProposal("Test Proposal", "Test Description");
+    const OPTIONS = ["Vendor A", "Vendor B", "Vendor C"];
+    let contractAddress: string;
 
-      const hash1 = await createVoteHash(true, 11111, voter1.address);
-      const hash2 = await createVoteHash(false, 22222, voter2.address);
+    const castChoice = async (voter: any, option: number, proposalId = 1) => {
+      const ballot = await fhevm.createEncryptedInput(contractAddress, voter.address).add8(option).encrypt();
+      await votingContract.connect(voter).castEncryptedChoice(proposalId, ballot.handles[0], ballot.inputProof);
+    };
 
-      await votingContract.connect(voter1).commitVote(1, hash1);
-      await votingContract.connect(voter2).commitVote(1, hash2);
+    // Executes the proposal and returns the handles to decrypt: the winner, then any revealed tallies
+    const requestWinner = async (proposalId = 1): Promise<string[]> => {
+      await time.increase(VOTING_PERIOD);
+      const receipt = await (await votingContract.executeProposal(proposalId)).wait();
+      const event = receipt!.logs
+        .map((log) => votingContract.interface.parseLog(log))
+        .find((parsed) => parsed?.name === "DecryptionRequested");
+      return [...event!.args.handles];
+    };
+
+    const finalize = async (handles: string[], proposalId = 1) => {
+      const { abiEncodedClearValues, decryptionProof } = await fhevm.publicDecrypt(handles);
+      return votingContract.finalizeProposal(proposalId, abiEncodedClearValues, decryptionProof);
+    };
+
+    beforeEach(async function () {
+      if (!fhevm.isMock) {
+        // The mock decryption oracle only exists on the Hardhat network
+        this.skip();
+      }
+      contractAddress = await votingContract.getAddress();
+      await votingContract.connect(proposer).createChoiceProposal("Vendor", "Pick a vendor", OPTIONS, VOTING_PERIOD, false);
     });
 
-    it("❌ Should prevent execution during voting period", async () => {
-      await expect(votingContract.executeProposal(1)).to.be.revertedWith(
-        "Reveal period not ended"
-      );
+    it("✅ Should create a proposal with its options", async () => {
+      expect(await votingContract.getOptions(1)).to.deep.equal(OPTIONS);
+      expect(await votingContract.getVotingStatus(1)).to.equal("Voting in progress");
     });
 
-    it("❌ Should prevent execution before reveal period ends", async () => {
-      // End voting period
-      const votingDuration = 7 * 24 * 60 * 60;
-      await ethers.provider.send("hardhat_mine", ["0x" + (votingDuration / 12).toString(16)]);
+    it("✅ Should reveal only the winning option", async () => {
+      await castChoice(proposer, 1); // weight 500
+      await castChoice(voter1, 2); // weight 300
+      await castChoice(voter2, 0); // weight 200
 
-      // Reveal some votes
-      await votingContract.connect(voter1).revealVote(1, true, 11111);
+      const handles = await requestWinner();
+      expect(handles).to.have.lengthOf(1);
 
-      // Still in reveal period (needs 1 more day)
-      await expect(votingContract.executeProposal(1)).to.be.revertedWith(
-        "Reveal period not ended"
-      );
+      await expect(finalize(handles)).to.emit(votingContract, "WinnerRevealed").withArgs(1, 1, []);
+
+      const [winningOption, tallies] = await votingContract.getWinner(1);
+      expect(winningOption).to.equal(1);
+      expect(tallies).to.be.empty;
+      expect(await votingContract.getVotingStatus(1)).to.equal("Executed");
     });
 
-    it("✅ Should allow execution after reveal period", async () => {
-      // End voting and reveal period
-      const votingDuration = 7 * 24 * 60 * 60;
-      const revealDuration = 1 * 24 * 60 * 60;
-      const totalDuration = votingDuration + revealDuration;
+    it("✅ Should reveal every tally when configured", async () => {
+      await votingContract.connect(proposer).createChoiceProposal("Budget", "Split the budget", OPTIONS, VOTING_PERIOD, true);
+      await castChoice(voter1, 2, 2); // weight 300
+      await castChoice(voter2, 0, 2); // weight 200
+      await castChoice(voter3, 2, 2); // weight 100
 
-      await ethers.provider.send("hardhat_mine", ["0x" + (totalDuration / 12).toString(16)]);
+      const handles = await requestWinner(2);
+      expect(handles).to.have.lengthOf(1 + OPTIONS.length);
 
-      const tx = await votingContract.executeProposal(1);
-      const receipt = await tx.wait();
+      await expect(finalize(handles, 2)).to.emit(votingContract, "WinnerRevealed").withArgs(2, 2, [200, 0, 400]);
 
-      const proposal = await votingContract.getProposal(1);
-      expect(proposal.executed).to.be.true;
+      const [winningOption, tallies] = await votingContract.getWinner(2);
+      expect(winningOption).to.equal(2);
+      expect(tallies).to.deep.equal([200n, 0n, 400n]);
+    });
 
-      // Verify event emitted
-      expect(receipt?.logs.length).to.be.greaterThan(0);
+    it("❌ Should reject an invalid number of options", async () => {
+      await expect(
+        votingContract.connect(proposer).createChoiceProposal("Test", "Test", ["Only"], VOTING_PERIOD, false)
+      ).to.be.revertedWith("Invalid option count");
+
+      const tooMany = Array.from({ length: 9 }, (_, i) => `Option ${i}`);
+      await expect(
+        votingContract.connect(proposer).createChoiceProposal("Test", "Test", tooMany, VOTING_PERIOD, false)
+      ).to.be.revertedWith("Invalid option count");
     });
 
-    it("❌ Should prevent double execution", async () => {
-      const votingDuration = 7 * 24 * 60 * 60;
-      const revealDuration = 1 * 24 * 60 * 60;
-      const totalDuration = votingDuration + revealDuration;
+    it("❌ Should prevent casting a second choice", async () => {
+      await castChoice(voter1, 0);
+      await expect(castChoice(voter1, 1)).to.be.revertedWith("Vote already cast");
+    });
 
-      await ethers.provider.send("hardhat_mine", ["0x" + (totalDuration / 12).toString(16)]);
+    it("❌ Should reject yes/no votes on a multiple-choice proposal", async () => {
+      const ballot = await fhevm.createEncryptedInput(contractAddress, voter1.address).addBool(true).encrypt();
+      await expect(
+        votingContract.connect(voter1).castEncryptedVote(1, ballot.handles[0], ballot.inputProof)
+      ).to.be.revertedWith("Not a yes/no proposal");
+    });
 
-      // First execution
-      await votingContract.executeProposal(1);
+    it("❌ Should reject a choice on a yes/no proposal", async () => {
+      await votingContract.connect(proposer).createProposal("Test Proposal", "Test Description", ...PROPOSAL_PARAMS);
+      await expect(castChoice(voter1, 0, 2)).to.be.revertedWith("Not a multiple-choice proposal");
+    });
 
-      // Second execution should fail
-      await expect(votingContract.executeProposal(1)).to.be.revertedWith(
-        "Proposal already executed"
-      );
+    it("❌ Should not return a winner before finalization", async () => {
+      await expect(votingContract.getWinner(1)).to.be.revertedWith("Winner not revealed");
+    });
+
+    /**
+     * ## Pitfall: Ties
+     * The winner only changes on a strictly greater tally, so a tie goes to
+     * the option with the lower index.
+     */
+    it("⚠️ Should give a tie to the lower option", async () => {
+      await castChoice(voter1, 2); // weight 300
+      await castChoice(voter2, 1); // weight 200
+      await castChoice(voter3, 1); // weight 100
+
+      await expect(finalize(await requestWinner()))
+        .to.emit(votingContract, "WinnerRevealed")
+        .withArgs(1, 1, []);
+    });
+
+    /**
+     * ## Pitfall: Out-of-Range Index
+     * The contract can't see the index, so a ballot for a missing option
+     * is accepted and counts for no option.
+     */
+    it("⚠️ Should count an out-of-range index for no option", async () => {
+      await votingContract.connect(proposer).createChoiceProposal("Budget", "Split the budget", OPTIONS, VOTING_PERIOD, true);
+      await castChoice(proposer, 7, 2); // weight 500, no such option
+      await castChoice(voter2, 1, 2); // weight 200
+
+      await expect(finalize(await requestWinner(2), 2))
+        .to.emit(votingContract, "WinnerRevealed")
+        .withArgs(2, 1, [0, 200, 0]);
+      expect(await votingContract.hasUserVoted(2, proposer.address)).to.be.true;
     });
   });
 
@@ -421,35 +745,43 @@ describe("FHEMVoting - Fully Homomorphic Encryption Voting System", () => {
      * - System pause/resume
      * - Emergency proposal pause
      */
+    const decryptWeight = async (voter: any) =>
+      fhevm.userDecryptEuint(
+        FhevmType.euint32,
+        await votingContract.getVoterWeight(voter.address),
+        await votingContract.getAddress(),
+        voter
+      );
+
     it("✅ Owner can set voter weights", async () => {
-      await votingContract.setVoterWeight(voter1.address, 1000);
-      const proposal = await votingContract.createProposal("Test", "Test");
+      const weight = await encryptWeights([1000]);
+      await votingContract.setVoterWeight(voter1.address, weight.handles[0], weight.inputProof);
 
-      const weight = await votingContract.voterWeight(voter1.address);
-      expect(weight).to.equal(1000);
+      expect(await decryptWeight(voter1)).to.equal(1000n);
     });
 
     it("✅ Owner can batch set voter weights", async () => {
       const voters = [voter1.address, voter2.address, voter3.address];
-      const weights = [500, 600, 700];
+      const weights = await encryptWeights([500, 600, 700]);
 
-      await votingContract.setMultipleVoterWeights(voters, weights);
+      await votingContract.setMultipleVoterWeights(voters, weights.handles, weights.inputProof);
 
-      expect(await votingContract.voterWeight(voter1.address)).to.equal(500);
-      expect(await votingContract.voterWeight(voter2.address)).to.equal(600);
-      expect(await votingContract.voterWeight(voter3.address)).to.equal(700);
+      expect(await decryptWeight(voter1)).to.equal(500n);
+      expect(await decryptWeight(voter2)).to.equal(600n);
+      expect(await decryptWeight(voter3)).to.equal(700n);
     });
 
     it("❌ Non-owner cannot set voter weights", async () => {
+      const weight = await fhevm.createEncryptedInput(await votingContract.getAddress(), voter1.address).add32(1000).encrypt();
       await expect(
-        votingContract.connect(voter1).setVoterWeight(voter2.address, 1000)
+        votingContract.connect(voter1).setVoterWeight(voter2.address, weight.handles[0], weight.inputProof)
       ).to.be.revertedWith("Only owner can operate");
     });
 
     it("✅ Owner can pause voting system", async () => {
       await votingContract.setVotingOpen(false);
 
-      await expect(votingContract.connect(proposer).createProposal("Test", "Test")).to.be.revertedWith(
+      await expect(votingContract.connect(proposer).createProposal("Test", "Test", ...PROPOSAL_PARAMS)).to.be.revertedWith(
         "Voting system is closed"
       );
     });
@@ -459,12 +791,12 @@ describe("FHEMVoting - Fully Homomorphic Encryption Voting System", () => {
       await votingContract.setVotingOpen(true);
 
       // Should succeed now
-      const tx = await votingContract.connect(proposer).createProposal("Test", "Test");
+      const tx = await votingContract.connect(proposer).createProposal("Test", "Test", ...PROPOSAL_PARAMS);
       expect(tx).to.not.be.undefined;
     });
 
     it("✅ Owner can pause individual proposal", async () => {
-      await votingContract.connect(proposer).createProposal("Test", "Test");
+      await votingContract.connect(proposer).createProposal("Test", "Test", ...PROPOSAL_PARAMS);
 
       await votingContract.pauseProposal(1);
 
@@ -472,13 +804,101 @@ describe("FHEMVoting - Fully Homomorphic Encryption Voting System", () => {
       expect(proposal.active).to.be.false;
 
       // Should not allow voting on paused proposal
-      const nonce = 12345;
-      const voteHash = await createVoteHash(true, nonce, voter1.address);
+      const ballot = await fhevm
+        .createEncryptedInput(await votingContract.getAddress(), voter1.address)
+        .addBool(true)
+        .encrypt();
+
+      await expect(
+        votingContract.connect(voter1).castEncryptedVote(1, ballot.handles[0], ballot.inputProof)
+      ).to.be.revertedWith("Proposal not active");
+    });
+  });
+
+  describe("Encrypted Voter Weights", () => {
+    /**
+     * ## Pattern: Encrypted Voting Power
+     * The owner assigns weights as encrypted inputs. Each voter can decrypt
+     * their own weight, and nobody else's:
+     * ```typescript
+     * const handle = await votingContract.getVoterWeight(voter.address);
+     * const weight = await fhevm.userDecryptEuint(FhevmType.euint32, handle, contractAddress, voter);
+     * ```
+     * MIN_VOTING_POWER is checked under encryption. requestProposerCheck
+     * makes only the result of `weight >= MIN_VOTING_POWER` publicly
+     * decryptable, and confirmProposerCheck records it.
+     */
+    let contractAddress: string;
+    let member: any;
+
+    beforeEach(async () => {
+      contractAddress = await votingContract.getAddress();
+      [, , , , , member] = await ethers.getSigners();
+    });
+
+    it("✅ Should let a voter decrypt their own weight", async () => {
+      const handle = await votingContract.getVoterWeight(voter1.address);
+      expect(await fhevm.userDecryptEuint(FhevmType.euint32, handle, contractAddress, voter1)).to.equal(300n);
+    });
+
+    it("✅ Should let a voter at MIN_VOTING_POWER create proposals", async () => {
+      expect(await votingContract.canPropose(voter3.address)).to.be.false;
+
+      await expect(checkProposer(voter3)).to.emit(votingContract, "ProposerChecked").withArgs(voter3.address, true);
+
+      expect(await votingContract.canPropose(voter3.address)).to.be.true;
+      await votingContract.connect(voter3).createProposal("Test", "Test", ...PROPOSAL_PARAMS);
+    });
+
+    it("❌ Should reject a proposer check from a non-voter", async () => {
+      await expect(votingContract.connect(member).requestProposerCheck()).to.be.revertedWith("No voting permission");
+    });
 
-      await expect(votingContract.connect(voter1).commitVote(1, voteHash)).to.be.revertedWith(
-        "Proposal not active"
+    it("❌ Should reject a confirmation without a pending check", async () => {
+      await expect(votingContract.confirmProposerCheck(voter3.address, "0x", "0x")).to.be.revertedWith(
+        "Proposer check not requested"
       );
     });
+
+    it("❌ Should not let others decrypt a voter's weight", async () => {
+      const handle = await votingContract.getVoterWeight(voter1.address);
+
+      let decrypted = true;
+      try {
+        await fhevm.userDecryptEuint(FhevmType.euint32, handle, contractAddress, voter2);
+      } catch {
+        decrypted = false;
+      }
+      expect(decrypted).to.be.false;
+    });
+
+    /**
+     * ## Pitfall: Failing an Encrypted Check
+     * A weight below MIN_VOTING_POWER can't make requestProposerCheck
+     * revert, since the contract never sees it. The failure shows once the
+     * check is decrypted: ProposerChecked reports false and createProposal
+     * keeps reverting with "Insufficient voting power".
+     */
+    it("⚠️ Should reject a proposer below MIN_VOTING_POWER", async () => {
+      const weight = await encryptWeights([50]);
+      await votingContract.setVoterWeight(member.address, weight.handles[0], weight.inputProof);
+
+      await expect(checkProposer(member)).to.emit(votingContract, "ProposerChecked").withArgs(member.address, false);
+
+      await expect(
+        votingContract.connect(member).createProposal("Test", "Test", ...PROPOSAL_PARAMS)
+      ).to.be.revertedWith("Insufficient voting power");
+    });
+
+    it("⚠️ Should require a new check after a weight change", async () => {
+      const weight = await encryptWeights([50]);
+      await votingContract.setVoterWeight(proposer.address, weight.handles[0], weight.inputProof);
+
+      expect(await votingContract.canPropose(proposer.address)).to.be.false;
+      await expect(
+        votingContract.connect(proposer).createProposal("Test", "Test", ...PROPOSAL_PARAMS)
+      ).to.be.revertedWith("Insufficient voting power");
+    });
   });
 
   describe("View Functions and Queries", () => {
@@ -487,7 +907,7 @@ describe("FHEMVoting - Fully Homomorphic Encryption Voting System", () => {
      * Provide voting status, proposal details, and system state without state changes
      */
     beforeEach(async () => {
-      await votingContract.connect(proposer).createProposal("Test Proposal", "Test Description");
+      await votingContract.connect(proposer).createProposal("Test Proposal", "Test Description", ...PROPOSAL_PARAMS);
     });
 
     it("✅ Should return current time", async () => {
@@ -504,30 +924,18 @@ describe("FHEMVoting - Fully Homomorphic Encryption Voting System", () => {
       const status = await votingContract.getVotingStatus(999);
       expect(status).to.equal("Proposal does not exist");
     });
-
-    it("✅ Should generate correct vote hash", async () => {
-      const support = true;
-      const nonce = 12345;
-      const voterAddress = voter1.address;
-
-      const hash = await votingContract.connect(voter1).generateVoteHash(support, nonce);
-      const expectedHash = ethers.solidityPackedKeccak256(
-        ["bool", "uint256", "address"],
-        [support, nonce, voterAddress]
-      );
-
-      expect(hash).to.equal(expectedHash);
-    });
   });
 
   describe("Edge Cases and Error Handling", () => {
     it("❌ Should reject operations on non-existent proposals", async () => {
-      const nonce = 12345;
-      const voteHash = await createVoteHash(true, nonce, voter1.address);
+      const ballot = await fhevm
+        .createEncryptedInput(await votingContract.getAddress(), voter1.address)
+        .addBool(true)
+        .encrypt();
 
-      await expect(votingContract.connect(voter1).commitVote(999, voteHash)).to.be.revertedWith(
-        "Proposal does not exist"
-      );
+      await expect(
+        votingContract.connect(voter1).castEncryptedVote(999, ballot.handles[0], ballot.inputProof)
+      ).to.be.revertedWith("Proposal does not exist");
 
       await expect(votingContract.getProposal(999)).to.be.revertedWith("Proposal does not exist");
 
@@ -538,11 +946,11 @@ describe("FHEMVoting - Fully Homomorphic Encryption Voting System", () => {
 
     it("❌ Should require equal length arrays in batch operations", async () => {
       const voters = [voter1.address, voter2.address];
-      const weights = [100]; // Mismatched length
+      const weights = await encryptWeights([100]); // Mismatched length
 
-      await expect(votingContract.setMultipleVoterWeights(voters, weights)).to.be.revertedWith(
-        "Array length mismatch"
-      );
+      await expect(
+        votingContract.setMultipleVoterWeights(voters, weights.handles, weights.inputProof)
+      ).to.be.revertedWith("Array length mismatch");
     });
   });
 });
@@ -55,15 +55,7 @@ contract EncryptSingleValue is ZamaEthereumConfig {
      * ```
      *
      * ### Contract Side (This Function):
-     * ```solidity
-     * // 4. Verify and convert external input
-     * euint32 value = FHE.fromExternal(encryptedInput, inputProof);
-     *
-     * // 5. Store and grant permissions
-     * userValues[msg.sender] = value;
-     * FHE.allowThis(value);
-     * FHE.allow(value, msg.sender);
-     * ```
+     * {{snippet #storeValue}}
      *
      * ## What FHE.fromExternal Does:
      * - ✅ Verifies the input is properly encrypted
@@ -65,28 +65,21 @@ contract FHECounter is ZamaEthereumConfig {
      * 6. Permissions granted to both contract and user
      *
      * ## FHEVM Pattern: FHE.fromExternal
-     * ```solidity
-     * euint32 encryptedInput = FHE.fromExternal(inputEuint32, inputProof);
-     * ```
+     * {{snippet #increment-input}}
      * This verifies:
      * - Input is properly encrypted
      * - Encryption binding matches contract and caller
      * - Proof is valid
      *
      * ## FHEVM Pattern: FHE.add
-     * ```solidity
-     * _count = FHE.add(_count, encryptedInput);
-     * ```
+     * {{snippet #increment-add}}
      * Performs homomorphic addition:
      * - Both operands remain encrypted
      * - Result is encrypted
      * - No plaintext data exposed
      *
      * ## FHEVM Pattern: Permission Granting (CRITICAL!)
-     * ```solidity
-     * FHE.allowThis(_count);        // Contract can use this value
-     * FHE.allow(_count, msg.sender); // User can decrypt this value
-     * ```
+     * {{snippet #increment-permissions}}
      * **BOTH are required!**
      * - Missing FHE.allowThis() → Contract cannot use value in future operations
      * - Missing FHE.allow() → User cannot decrypt the value
@@ -96,14 +89,20 @@ contract FHECounter is ZamaEthereumConfig {
      */
     function increment(externalEuint32 inputEuint32, bytes calldata inputProof) external {
         // Step 1: Verify and convert external encrypted input
+        // snippet-start: increment-input
         euint32 encryptedEuint32 = FHE.fromExternal(inputEuint32, inputProof);
+        // snippet-end: increment-input
 
         // Step 2: Perform encrypted addition
+        // snippet-start: increment-add
         _count = FHE.add(_count, encryptedEuint32);
+        // snippet-end: increment-add
 
         // Step 3: Grant permissions (BOTH required!)
+        // snippet-start: increment-permissions
         FHE.allowThis(_count);        // Contract permission
         FHE.allow(_count, msg.sender); // User permission
+        // snippet-end: increment-permissions
 
         emit Incremented(msg.sender);
     }
@@ -114,9 +113,7 @@ contract FHECounter is ZamaEthereumConfig {
      * @param inputProof Zero-knowledge proof attesting correct encryption
      *
      * ## FHEVM Pattern: FHE.sub
-     * ```solidity
-     * _count = FHE.sub(_count, encryptedInput);
-     * ```
+     * {{snippet #decrement-sub}}
      * Performs homomorphic subtraction:
      * - Both operands remain encrypted throughout
      * - Result is encrypted
@@ -137,7 +134,9 @@ contract FHECounter is ZamaEthereumConfig {
         euint32 encryptedEuint32 = FHE.fromExternal(inputEuint32, inputProof);
 
         // Step 2: Perform encrypted subtraction
+        // snippet-start: decrement-sub
         _count = FHE.sub(_count, encryptedEuint32);
+        // snippet-end: decrement-sub
 
         // Step 3: Grant permissions (BOTH required!)
         FHE.allowThis(_count);        // Contract permission
@@ -151,9 +150,7 @@ contract FHECounter is ZamaEthereumConfig {
      * @dev In production, this might be restricted to admin/owner
      *
      * ## FHEVM Pattern: FHE.asEuint32
-     * ```solidity
-     * _count = FHE.asEuint32(0);
-     * ```
+     * {{snippet #reset}}
      * Creates a new encrypted value from a plaintext literal:
      * - Input is plaintext (0)
      * - Output is encrypted
@@ -2,6 +2,9 @@
 pragma solidity ^0.8.24;
 
 /// @title DAO Secret Voting Contract - Preventing Vote Manipulation
+/// @notice Plaintext commit-reveal DAO voting with weighted voters, the non-FHE baseline for the FHEVM voting examples
+/// @custom:category governance
+/// @custom:learning-path 4
 contract SecureDAOVoting {
     struct Proposal {
         uint256 id;
@@ -0,0 +1,27 @@
+import React from 'react'
+import WalletConnect from './components/WalletConnect'
+import ContractPanel from './components/ContractPanel'
+import { WalletProvider } from './hooks/useWallet'
+import { CONTRACTS } from './contracts'
+import { loadContract } from './artifacts'
+
+function App() {
+  return (
+    <WalletProvider>
+      <div className="app-container">
+        <div className="header">
+          <h1>{CONTRACTS.join(', ')}</h1>
+          <p>One panel per public function, generated from the compiled ABI</p>
+        </div>
+
+        <WalletConnect />
+
+        {CONTRACTS.map(name => (
+          <ContractPanel key={name} contract={loadContract(name)} />
+        ))}
+      </div>
+    </WalletProvider>
+  )
+}
+
+export default App
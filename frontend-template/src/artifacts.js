@@ -0,0 +1,26 @@
+// Hardhat outputs of the project this client lives in:
+// - artifacts/ is written by `npm run compile`
+// - deployments/<network>/ is written by hardhat-deploy, e.g. `npm run deploy:localhost`
+const artifacts = import.meta.glob(['../../artifacts/contracts/**/*.json', '!**/*.dbg.json'], {
+  eager: true,
+  import: 'default'
+})
+const deployments = import.meta.glob('../../deployments/*/*.json', {
+  eager: true,
+  import: 'default'
+})
+
+export const NETWORK = import.meta.env.VITE_NETWORK || 'localhost'
+
+export function loadContract(contractName) {
+  const artifact = Object.entries(artifacts).find(([file]) =>
+    file.endsWith(`/${contractName}.sol/${contractName}.json`)
+  )?.[1]
+  const deployment = deployments[`../../deployments/${NETWORK}/${contractName}.json`]
+
+  return {
+    name: contractName,
+    abi: artifact?.abi ?? null,
+    address: deployment?.address ?? null
+  }
+}
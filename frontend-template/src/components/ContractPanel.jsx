@@ -0,0 +1,48 @@
+import React, { useMemo } from 'react'
+import { ethers } from 'ethers'
+import FunctionPanel from './FunctionPanel'
+import { useWallet } from '../hooks/useWallet'
+import { NETWORK } from '../artifacts'
+
+export default function ContractPanel({ contract }) {
+  const { signer } = useWallet()
+
+  const instance = useMemo(() => {
+    if (!contract.abi || !contract.address || !signer) return null
+    return new ethers.Contract(contract.address, contract.abi, signer)
+  }, [contract, signer])
+
+  if (!contract.abi) {
+    return (
+      <div className="card">
+        <h2>{contract.name}</h2>
+        <div className="error">
+          No compiled artifact found. Run <code>npm run compile</code> in the project root.
+        </div>
+      </div>
+    )
+  }
+
+  const functions = contract.abi.filter(entry => entry.type === 'function')
+
+  return (
+    <div className="card">
+      <h2>{contract.name}</h2>
+      {contract.address ? (
+        <p>
+          Deployed at <code>{contract.address}</code> ({NETWORK})
+        </p>
+      ) : (
+        <div className="error">
+          No deployment found for {NETWORK}. Run <code>npm run chain</code> and{' '}
+          <code>npm run deploy:localhost</code> in the project root.
+        </div>
+      )}
+
+      {functions.map(fragment => {
+        const signature = ethers.FunctionFragment.from(fragment).format()
+        return <FunctionPanel key={signature} fragment={fragment} contract={instance} />
+      })}
+    </div>
+  )
+}
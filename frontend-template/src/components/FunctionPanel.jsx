@@ -0,0 +1,124 @@
+import React, { useState } from 'react'
+import { ethers } from 'ethers'
+
+// Encrypted inputs (externalEuint32, ...) are handles with an input proof, produced by
+// encrypting with the FHEVM relayer SDK, which this client doesn't include
+function isEncryptedInput(input) {
+  return (input.internalType || '').startsWith('externalE')
+}
+
+// Arrays and tuples are entered as JSON, everything else as ethers accepts it
+function parseArg(input, raw) {
+  if (input.type.endsWith(']') || input.type.startsWith('tuple')) {
+    return JSON.parse(raw)
+  }
+  if (input.type === 'bool') {
+    return raw === 'true'
+  }
+  return raw
+}
+
+function formatResult(value) {
+  return JSON.stringify(
+    value,
+    (key, item) => (typeof item === 'bigint' ? item.toString() : item),
+    2
+  )
+}
+
+export default function FunctionPanel({ fragment, contract }) {
+  const inputs = fragment.inputs || []
+  const isView = fragment.stateMutability === 'view' || fragment.stateMutability === 'pure'
+  const isPayable = fragment.stateMutability === 'payable'
+  const isUnsupported = inputs.some(isEncryptedInput)
+
+  const [values, setValues] = useState(inputs.map(() => ''))
+  const [value, setValue] = useState('')
+  const [result, setResult] = useState('')
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState('')
+
+  const setInput = (index, raw) => {
+    setValues(current => current.map((item, i) => (i === index ? raw : item)))
+  }
+
+  const handleCall = async () => {
+    try {
+      setLoading(true)
+      setError('')
+      setResult('')
+
+      const args = inputs.map((input, i) => parseArg(input, values[i]))
+      const method = contract.getFunction(ethers.FunctionFragment.from(fragment).format())
+
+      if (isView) {
+        const output = await method.staticCall(...args)
+        setResult(formatResult(typeof output?.toArray === 'function' ? output.toArray() : output))
+      } else {
+        const tx =
+          isPayable && value
+            ? await method(...args, { value: ethers.parseEther(value) })
+            : await method(...args)
+        setResult(`Transaction sent: ${tx.hash}`)
+        const receipt = await tx.wait()
+        setResult(`Confirmed in block ${receipt.blockNumber}: ${tx.hash}`)
+      }
+    } catch (err) {
+      console.error(`${fragment.name} failed:`, err)
+      setError(err.shortMessage || err.message)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  return (
+    <div className="function-panel">
+      <h3>
+        {fragment.name}
+        <span className="badge">{fragment.stateMutability}</span>
+        {isUnsupported && <span className="badge">encrypted input</span>}
+      </h3>
+
+      {isUnsupported && (
+        <div className="notice">
+          Not supported here: this function takes encrypted inputs, which must be encrypted with the
+          FHEVM relayer SDK. Call it from the project's tests or scripts instead.
+        </div>
+      )}
+
+      {inputs.map((input, i) => (
+        <div className="form-group" key={i}>
+          <label>
+            {input.name || `arg${i}`} <code>{input.internalType || input.type}</code>
+          </label>
+          <input
+            type="text"
+            value={values[i]}
+            onChange={e => setInput(i, e.target.value)}
+            placeholder={input.type}
+            disabled={isUnsupported}
+          />
+        </div>
+      ))}
+
+      {isPayable && (
+        <div className="form-group">
+          <label>Value (ETH)</label>
+          <input
+            type="text"
+            value={value}
+            onChange={e => setValue(e.target.value)}
+            placeholder="0.0"
+          />
+        </div>
+      )}
+
+      <button className="btn" onClick={handleCall} disabled={!contract || loading || isUnsupported}>
+        {loading ? 'Waiting...' : isView ? 'Call' : 'Send'}
+      </button>
+
+      {result && <pre className="result">{result}</pre>}
+      {error && <div className="error">{error}</div>}
+    </div>
+  )
+}
@@ -0,0 +1,38 @@
+import React from 'react'
+import { useWallet } from '../hooks/useWallet'
+import { NETWORK } from '../artifacts'
+
+export default function WalletConnect() {
+  const { address, chainId, isConnected, error, connectWallet, disconnectWallet } = useWallet()
+
+  return (
+    <div className="card">
+      {!isConnected ? (
+        <button className="btn" onClick={connectWallet}>
+          Connect Wallet
+        </button>
+      ) : (
+        <>
+          <button className="btn" onClick={disconnectWallet}>
+            Disconnect
+          </button>
+          <div className="info-grid">
+            <div className="info-item">
+              <div>Your Address</div>
+              <div className="info-value">{address}</div>
+            </div>
+            <div className="info-item">
+              <div>Chain ID</div>
+              <div className="info-value">{chainId}</div>
+            </div>
+            <div className="info-item">
+              <div>Deployment</div>
+              <div className="info-value">{NETWORK}</div>
+            </div>
+          </div>
+        </>
+      )}
+      {error && <div className="error">{error}</div>}
+    </div>
+  )
+}
@@ -0,0 +1,78 @@
+import React, { createContext, useContext, useState, useEffect } from 'react'
+import { ethers } from 'ethers'
+
+const WalletContext = createContext()
+
+export function WalletProvider({ children }) {
+  const [address, setAddress] = useState(null)
+  const [chainId, setChainId] = useState(null)
+  const [signer, setSigner] = useState(null)
+  const [isConnected, setIsConnected] = useState(false)
+  const [error, setError] = useState('')
+
+  const connectWallet = async () => {
+    try {
+      if (!window.ethereum) {
+        setError('No wallet found. Install MetaMask to continue.')
+        return
+      }
+
+      const provider = new ethers.BrowserProvider(window.ethereum)
+      const accounts = await provider.send('eth_requestAccounts', [])
+      const network = await provider.getNetwork()
+
+      setSigner(await provider.getSigner())
+      setAddress(accounts[0])
+      setChainId(Number(network.chainId))
+      setIsConnected(true)
+      setError('')
+    } catch (err) {
+      console.error('Failed to connect wallet:', err)
+      setError(`Failed to connect wallet: ${err.message}`)
+    }
+  }
+
+  const disconnectWallet = () => {
+    setAddress(null)
+    setChainId(null)
+    setSigner(null)
+    setIsConnected(false)
+  }
+
+  useEffect(() => {
+    if (!window.ethereum) return
+
+    const onAccountsChanged = accounts => {
+      if (accounts.length === 0) {
+        disconnectWallet()
+      } else {
+        connectWallet()
+      }
+    }
+    const onChainChanged = () => window.location.reload()
+
+    window.ethereum.on('accountsChanged', onAccountsChanged)
+    window.ethereum.on('chainChanged', onChainChanged)
+
+    return () => {
+      window.ethereum.removeListener('accountsChanged', onAccountsChanged)
+      window.ethereum.removeListener('chainChanged', onChainChanged)
+    }
+  }, [])
+
+  return (
+    <WalletContext.Provider
+      value={{ address, chainId, signer, isConnected, error, connectWallet, disconnectWallet }}
+    >
+      {children}
+    </WalletContext.Provider>
+  )
+}
+
+export function useWallet() {
+  const context = useContext(WalletContext)
+  if (!context) {
+    throw new Error('useWallet must be used within WalletProvider')
+  }
+  return context
+}
@@ -0,0 +1,13 @@
+import { defineConfig } from 'vite'
+import react from '@vitejs/plugin-react'
+
+export default defineConfig({
+  plugins: [react()],
+  server: {
+    port: 3000,
+    fs: {
+      // The ABIs and addresses are read from ../artifacts and ../deployments
+      allow: ['..']
+    }
+  }
+})
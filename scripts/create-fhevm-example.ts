@@ -4,7 +4,7 @@
  * create-fhevm-example - CLI tool to generate standalone FHEVM voting example repositories
  *
  * This script creates a complete, ready-to-use Hardhat project for a single FHEVM voting example.
- * It:
+ * It is a thin wrapper around the createExample API in ./lib/create-example, which:
  * 1. Clones the base template
  * 2. Copies contract and test files
  * 3. Updates configuration and package.json
@@ -12,15 +12,22 @@
  * 5. Creates deployment scripts
  *
  * Usage: npx ts-node scripts/create-fhevm-example.ts <example-name> [output-dir]
+ *        npx ts-node scripts/create-fhevm-example.ts --category <name> [output-dir]
+ *        npx ts-node scripts/create-fhevm-example.ts --examples <a,b,c> [output-dir]
+ *        npx ts-node scripts/create-fhevm-example.ts doctor [project-dir]
+ *        npx ts-node scripts/create-fhevm-example.ts new <name> --category <name>
  *
  * Examples:
  *   npx ts-node scripts/create-fhevm-example.ts fhevm-voting ./my-voting-example
  *   npx ts-node scripts/create-fhevm-example.ts secure-voting-advanced ./examples/voting
  */
 
-import * as fs from "fs";
-import * as path from "path";
 import { execSync } from "child_process";
+import { ConflictPolicy, createExample, CreateExampleOptions, CreateExampleResult, PlannedFile } from "./lib/create-example";
+import { DoctorReport, runDoctor } from "./lib/doctor";
+import { CreateExampleError, FileConflictError, UnknownExampleError } from "./lib/errors";
+import { discoverManifests, ManifestIssue, ManifestRegistry, MANIFEST_ROOTS, MANIFEST_SUFFIX } from "./lib/manifest";
+import { scaffoldExample, ScaffoldResult } from "./lib/scaffold";
 
 // Color codes for terminal output
 enum Color {
@@ -53,442 +60,208 @@ function warning(message: string): void {
   log(`⚠️  ${message}`, Color.Yellow);
 }
 
-// Example configuration
-interface ExampleConfig {
-  contract: string;
-  test: string;
-  description: string;
-}
+// Load example manifests (*.example.json) from contracts/ and base-template/
+const registry: ManifestRegistry = discoverManifests();
 
-// Map of available examples
-const EXAMPLES_MAP: Record<string, ExampleConfig> = {
-  "fhe-counter": {
-    contract: "contracts/basic/FHECounter.sol",
-    test: "test/basic/FHECounter.ts",
-    description:
-      "Basic encrypted counter demonstrating FHE operations, permissions, and arithmetic",
-  },
-  "encrypt-single-value": {
-    contract: "contracts/basic/EncryptSingleValue.sol",
-    test: "test/basic/EncryptSingleValue.ts",
-    description:
-      "Demonstrates encrypted input validation, proof verification, and common pitfalls",
-  },
-  "fhevm-voting": {
-    contract: "base-template/contracts/FHEMVoting.sol",
-    test: "base-template/test/FHEMVoting.ts",
-    description:
-      "Advanced voting system with commit-reveal, weighted votes, and multi-phase governance",
-  },
-};
+function reportManifestIssues(issues: ManifestIssue[]): void {
+  if (issues.length === 0) return;
+
+  warning(`${issues.length} problem(s) found in example manifests:`);
+  for (const issue of issues) {
+    console.log(`   ${issue.manifestPath}: ${issue.message}`);
+  }
+  console.log();
+}
 
 function showHelp(): void {
   log("FHEVM Voting Example Generator", Color.Cyan);
   log("================================\n", Color.Cyan);
   console.log(`Usage: npx ts-node scripts/create-fhevm-example.ts <example> [output-dir]
+       npx ts-node scripts/create-fhevm-example.ts --category <name> [output-dir]
+       npx ts-node scripts/create-fhevm-example.ts --examples <a,b,c> [output-dir]
+       npx ts-node scripts/create-fhevm-example.ts doctor [project-dir]
+       npx ts-node scripts/create-fhevm-example.ts new <name> --category <name>
+
+Commands:
+  doctor       Check a project offline: test imports, getContractFactory names,
+               hardhat config paths and plugins, package.json script files and
+               README signatures. Exits with code 1 if any check fails.
+  new          Scaffold a new example in this repository: a contract stub in
+               contracts/<category>/, its manifest, a test skeleton in
+               test/<category>/ and a docs page linked from examples/SUMMARY.md.
+               The example shows up in --list and generate-docs right away.
 
 Arguments:
   example      Name of the example to generate
-  output-dir   Output directory (default: ./examples/<example>)
+  output-dir   Output directory (default: ./examples/<example>, ./examples/<category>
+               or ./examples/workspace)
 
 Available Examples:`);
 
-  for (const [name, config] of Object.entries(EXAMPLES_MAP)) {
-    console.log(`  ${name.padEnd(25)} ${config.description}`);
+  for (const [name, manifest] of Object.entries(registry.examples)) {
+    console.log(`  ${name.padEnd(25)} ${manifest.description}`);
   }
 
   console.log(`\nExamples:
   npx ts-node scripts/create-fhevm-example.ts fhevm-voting ./my-voting
   npx ts-node scripts/create-fhevm-example.ts fhevm-voting
+  npx ts-node scripts/create-fhevm-example.ts fhe-counter ./counter --with-frontend
+  npx ts-node scripts/create-fhevm-example.ts --category basic ./basic-examples
+  npx ts-node scripts/create-fhevm-example.ts --examples fhe-counter,fhevm-voting
+  npx ts-node scripts/create-fhevm-example.ts new private-balance --category basic
 
 Options:
   --help                 Show this help message
-  --list                 List available examples`);
+  --list                 List available examples
+  --category <name>      Generate one project with every example in a category
+  --examples <a,b,c>     Generate one project with the listed examples
+  --dry-run              Print the files that would be written, without writing
+  --diff                 Show a unified diff of each file against what is on disk
+  --force                Overwrite existing files that differ
+  --skip-existing        Keep existing files that differ, write only new ones
+  --with-frontend        Add a Vite + React client in frontend/ that reads the ABI
+                         from artifacts/ and the address from deployments/
+
+Without --force or --skip-existing, the command fails (exit code 1) if any
+existing file would change. --dry-run and --diff exit the same way.
+
+Examples are discovered from *${MANIFEST_SUFFIX} manifests in: ${MANIFEST_ROOTS.join(", ")}`);
+
+  if (registry.issues.length > 0) {
+    console.log();
+    reportManifestIssues(registry.issues);
+  }
 }
 
 function listExamples(): void {
   log("Available FHEVM Voting Examples:", Color.Cyan);
   log("=================================\n", Color.Cyan);
 
-  for (const [name, config] of Object.entries(EXAMPLES_MAP)) {
+  for (const [name, manifest] of Object.entries(registry.examples)) {
     log(`📦 ${name}`, Color.Green);
-    console.log(`   ${config.description}`);
-    console.log(`   Contract: ${config.contract}`);
-    console.log(`   Test: ${config.test}\n`);
+    console.log(`   ${manifest.description}`);
+    console.log(`   Category: ${manifest.category}`);
+    console.log(`   Contract: ${manifest.contract}`);
+    console.log(`   Tests: ${manifest.tests.join(", ")}`);
+    console.log(`   Manifest: ${manifest.manifestPath}\n`);
   }
-}
 
-function copyFileSync(src: string, dest: string): void {
-  const destDir = path.dirname(dest);
-  if (!fs.existsSync(destDir)) {
-    fs.mkdirSync(destDir, { recursive: true });
-  }
-  fs.copyFileSync(src, dest);
+  reportManifestIssues(registry.issues);
 }
 
-function copyDir(src: string, dest: string, exclude: string[] = []): void {
-  if (!fs.existsSync(dest)) {
-    fs.mkdirSync(dest, { recursive: true });
-  }
+function printPlan(files: PlannedFile[], policy?: ConflictPolicy): void {
+  const labels = {
+    create: "new",
+    unchanged: "unchanged",
+    conflict: policy === "force" ? "overwrite" : policy === "skip-existing" ? "keep existing" : "CONFLICT",
+  };
+  const markers = { create: "+", unchanged: "=", conflict: policy === "skip-existing" ? "=" : "~" };
+  const width = Math.max(...files.map((file) => file.path.length));
 
-  const files = fs.readdirSync(src);
+  log("\nPlanned files:", Color.Cyan);
   for (const file of files) {
-    // Skip excluded files
-    if (exclude.includes(file)) continue;
-
-    const srcPath = path.join(src, file);
-    const destPath = path.join(dest, file);
-    const stat = fs.statSync(srcPath);
-
-    if (stat.isDirectory()) {
-      copyDir(srcPath, destPath, exclude);
-    } else {
-      copyFileSync(srcPath, destPath);
-    }
+    console.log(`  ${markers[file.status]} ${file.path.padEnd(width)}  (${labels[file.status]})`);
   }
+  console.log();
 }
 
-function generateREADME(example: string, config: ExampleConfig, outputDir: string): void {
-  const readmeContent = `# FHEVM Voting - ${example}
-
-${config.description}
-
-## Overview
-
-This is a standalone FHEVM example repository demonstrating secure voting using Fully Homomorphic Encryption.
-
-## Quick Start
-
-### Prerequisites
-- Node.js >= 20
-- npm >= 7
-
-### Installation
-
-\`\`\`bash
-npm install
-\`\`\`
-
-### Compile Contracts
-
-\`\`\`bash
-npm run compile
-\`\`\`
-
-### Run Tests
-
-\`\`\`bash
-npm test
-\`\`\`
-
-### Test with Gas Report
-
-\`\`\`bash
-REPORT_GAS=true npm test
-\`\`\`
-
-### Generate Coverage Report
-
-\`\`\`bash
-npm run coverage
-\`\`\`
-
-## Project Structure
-
-\`\`\`
-├── contracts/
-│   └── FHEMVoting.sol      # Main voting contract
-├── test/
-│   └── FHEMVoting.ts       # Comprehensive test suite
-├── deploy/                  # Deployment scripts
-├── hardhat.config.ts       # Hardhat configuration
-├── package.json            # Dependencies
-└── README.md               # This file
-\`\`\`
-
-## Key Concepts
-
-### Voting Flow
-
-1. **Proposal Creation**: Anyone with sufficient voting power can create proposals
-2. **Commit Phase**: Voters submit encrypted vote commitments using nonces
-3. **Reveal Phase**: Voters reveal actual votes with verification
-4. **Execution Phase**: Proposal can be executed after reveal period
-
-### FHEVM Patterns Demonstrated
-
-- **Encrypted Aggregation**: FHE.add for accumulating encrypted votes
-- **Permission Management**: FHE.allowThis() and FHE.allow() for access control
-- **Commit-Reveal Voting**: Privacy-preserving voting mechanism
-- **Weighted Voting**: Different voting power for different participants
-
-### Security Features
-
-- Hash verification prevents vote tampering
-- Double-vote prevention through state tracking
-- Time-locked phases for coordinated voting
-- Weighted voting power system
-
-## Testing
-
-The test suite includes:
-
-✅ Proposal creation with voting power validation
-✅ Vote commitment hash generation
-✅ Commit phase timing enforcement
-✅ Reveal phase verification
-✅ Vote tallying with encrypted aggregation
-✅ Double voting prevention
-✅ Proposal execution logic
-✅ Access control mechanisms
-✅ Edge cases and error conditions
-
-Run tests with:
-
-\`\`\`bash
-npm test
-\`\`\`
-
-## Smart Contract
-
-### Contract: FHEMVoting
-
-The main contract implements secure voting using FHEVM encryption.
-
-**Key Functions:**
-
-- \`createProposal(string title, string description)\` - Create new proposal
-- \`commitVote(uint256 proposalId, bytes32 voteHash)\` - Commit encrypted vote
-- \`revealVote(uint256 proposalId, bool support, uint256 nonce)\` - Reveal and tally vote
-- \`executeProposal(uint256 proposalId)\` - Execute proposal after reveal
-
-**Voter Management:**
-
-- \`setVoterWeight(address voter, uint256 weight)\` - Set individual voting weight
-- \`setMultipleVoterWeights(address[] voters, uint256[] weights)\` - Batch set weights
-
-## Learning Resources
-
-### FHEVM Concepts
-
-1. **Fully Homomorphic Encryption**: Encrypt data, compute on it, decrypt results
-2. **Commit-Reveal Pattern**: Two-phase voting for privacy and integrity
-3. **Encrypted Arithmetic**: FHE.add for accumulating encrypted votes
-4. **Permission System**: FHE.allow controls decryption access
-
-### Further Reading
-
-- [FHEVM Documentation](https://docs.zama.ai/fhevm)
-- [FHEVM GitHub](https://github.com/zama-ai/fhevm)
-- [Zama Community](https://www.zama.ai/community)
-
-## Deployment
-
-### Local Testing
-
-\`\`\`bash
-npx hardhat node
-\`\`\`
-
-### Deploy to Sepolia Testnet
-
-1. Create \`.env\` file with:
-\`\`\`env
-PRIVATE_KEY=your_private_key
-SEPOLIA_RPC_URL=https://sepolia.infura.io/v3/YOUR_KEY
-ETHERSCAN_API_KEY=your_etherscan_key
-\`\`\`
-
-2. Deploy:
-\`\`\`bash
-npx hardhat run scripts/deploy.ts --network sepolia
-\`\`\`
-
-3. Verify:
-\`\`\`bash
-npx hardhat verify --network sepolia CONTRACT_ADDRESS
-\`\`\`
-
-## Development
-
-### Code Style
-
-Code follows these conventions:
-- Solidity: NatSpec documentation on all functions
-- Tests: Clear test names describing behavior
-- TypeScript: Strict mode enabled, full type safety
-
-### Linting
-
-\`\`\`bash
-npm run lint
-npm run prettier:write
-\`\`\`
-
-### Building
-
-\`\`\`bash
-npm run build:ts
-\`\`\`
-
-## License
-
-BSD-3-Clause-Clear License
-
-## Support
+function printResult(result: CreateExampleResult, options: CreateExampleOptions): void {
+  info(`Output directory: ${result.outputDir}`);
+  for (const example of result.examples) {
+    info(`Contract interface: ${example.contractName} (from ${example.abiSource})`);
+  }
+  for (const message of result.warnings) {
+    warning(message);
+  }
 
-For questions and support:
-- [Zama Community Forum](https://www.zama.ai/community)
-- [GitHub Issues](https://github.com/zama-ai/fhevm/issues)
-- [Discord](https://discord.com/invite/zama)
+  if (result.preview) {
+    process.stdout.write(result.diff);
+    printPlan(result.files, options.policy);
 
----
+    const conflicts = result.files.filter((file) => file.status === "conflict");
+    if (conflicts.length > 0 && !options.policy) {
+      error(`${conflicts.length} file(s) differ from disk. Use --force or --skip-existing to resolve.`);
+    }
+    info("Preview only: no files were written");
+    return;
+  }
 
-**Built for the Zama FHEVM Bounty Program**
+  const unchanged = result.files.length - result.written.length - result.kept.length;
+  success(`${result.examples.length > 1 ? "Workspace" : `Example ${result.examples[0].name}`} created successfully!`);
+  success(`Location: ${result.outputDir}`);
+  info(`${result.written.length} file(s) written, ${result.kept.length} kept, ${unchanged} unchanged`);
 
-*Advancing privacy-preserving blockchain governance with Fully Homomorphic Encryption*
-`;
+  log("\nNext steps:", Color.Cyan);
+  result.nextSteps.forEach((step, index) => console.log(`${index + 1}. ${step}`));
 
-  fs.writeFileSync(path.join(outputDir, "README.md"), readmeContent);
+  info("For more details, see README.md in the generated directory");
 }
 
-function generateDeploymentScript(outputDir: string): void {
-  const deployScript = `import { ethers } from "hardhat";
-
-async function main() {
-  const [deployer] = await ethers.getSigners();
-  console.log("Deploying FHEMVoting contract with account:", deployer.address);
-
-  const FHEMVoting = await ethers.getContractFactory("FHEMVoting");
-  const voting = await FHEMVoting.deploy();
-  await voting.waitForDeployment();
+function printDoctorReport(report: DoctorReport): void {
+  log(`Checking ${report.projectDir}`, Color.Cyan);
 
-  const address = await voting.getAddress();
-  console.log("FHEMVoting deployed to:", address);
+  const categories = [...new Set(report.checks.map((check) => check.category))];
+  for (const category of categories) {
+    const checks = report.checks.filter((check) => check.category === category);
+    const failed = checks.filter((check) => check.status === "fail").length;
+    log(`\n${failed > 0 ? "❌" : "✅"} ${category} (${checks.length - failed}/${checks.length} passed)`, failed > 0 ? Color.Red : Color.Green);
 
-  // Setup voter weights
-  const voters = [deployer.address];
-  const weights = [1000]; // Owner has 1000 voting power
-
-  await voting.setMultipleVoterWeights(voters, weights);
-  console.log("Voter weights configured");
-
-  // Display deployment info
-  console.log("\\nDeployment Summary:");
-  console.log("====================");
-  console.log("Contract Address:", address);
-  console.log("Deployer:", deployer.address);
-  console.log("Initial Voting Status: Active");
-}
+    for (const check of checks) {
+      const marker = { pass: "✔", fail: "✘", warn: "!" }[check.status];
+      const location = check.file ? `${check.file}: ` : "";
+      const color = { pass: Color.Reset, fail: Color.Red, warn: Color.Yellow }[check.status];
+      log(`   ${marker} ${location}${check.message}`, color);
+    }
+  }
 
-main()
-  .then(() => process.exit(0))
-  .catch((error) => {
-    console.error(error);
-    process.exit(1);
-  });
-`;
-
-  const deployDir = path.join(outputDir, "scripts");
-  if (!fs.existsSync(deployDir)) {
-    fs.mkdirSync(deployDir, { recursive: true });
+  const failures = report.checks.filter((check) => check.status === "fail").length;
+  const warnings = report.checks.filter((check) => check.status === "warn").length;
+  console.log();
+  if (report.passed) {
+    success(`PASS: ${report.checks.length} check(s), ${warnings} warning(s)`);
+  } else {
+    log(`❌ FAIL: ${failures} of ${report.checks.length} check(s) failed, ${warnings} warning(s)`, Color.Red);
   }
-  fs.writeFileSync(path.join(deployDir, "deploy.ts"), deployScript);
 }
 
-function createExample(exampleName: string, outputDir?: string): void {
-  // Validate example name
-  if (!EXAMPLES_MAP[exampleName]) {
-    error(`Unknown example: ${exampleName}`);
+function printScaffoldResult(result: ScaffoldResult): void {
+  success(`Example ${result.name} created (contract ${result.contractName})`);
+  for (const file of result.files) {
+    console.log(`   + ${file}`);
+  }
+  if (result.docsError) {
+    warning(`Docs page not generated: ${result.docsError}`);
+  } else {
+    console.log(`   ~ examples/SUMMARY.md`);
   }
 
-  // Set output directory
-  const finalOutputDir = outputDir || path.join("examples", exampleName);
-  const absoluteOutputDir = path.resolve(finalOutputDir);
+  log("\nNext steps:", Color.Cyan);
+  result.nextSteps.forEach((step, index) => console.log(`${index + 1}. ${step}`));
+}
 
-  info(`Creating FHEVM voting example: ${exampleName}`);
-  info(`Output directory: ${absoluteOutputDir}`);
-
-  // Check if output directory already exists
-  if (fs.existsSync(absoluteOutputDir)) {
-    warning(`Output directory already exists: ${absoluteOutputDir}`);
-    warning("Files will be overwritten");
-  }
+function run(options: CreateExampleOptions): void {
+  const target = options.example ?? (options.category ? `category ${options.category}` : options.examples?.join(", "));
+  info(`Creating FHEVM voting example: ${target}`);
 
+  let result: CreateExampleResult;
   try {
-    // Create output directory
-    if (!fs.existsSync(absoluteOutputDir)) {
-      fs.mkdirSync(absoluteOutputDir, { recursive: true });
+    result = createExample({ ...options, registry });
+  } catch (err) {
+    if (err instanceof UnknownExampleError) {
+      reportManifestIssues(registry.issues);
+      error(`Unknown example: ${err.example}. Use --list to see available examples.`);
     }
-
-    info("Copying base template...");
-
-    // Copy base template files, excluding node_modules and specific directories
-    const baseTemplateDir = path.resolve("base-template");
-    if (!fs.existsSync(baseTemplateDir)) {
-      error(`Base template not found at ${baseTemplateDir}`);
+    if (err instanceof FileConflictError) {
+      printPlan(err.conflicts.map((file) => ({ path: file, content: Buffer.alloc(0), status: "conflict" as const })));
+      error(`${err.message}. Use --force to overwrite them, --skip-existing to keep them, or --diff to review the changes.`);
     }
-
-    copyDir(baseTemplateDir, absoluteOutputDir, [
-      "node_modules",
-      ".git",
-      "fhevmTemp",
-      "artifacts",
-      "cache",
-      "coverage",
-      "dist",
-    ]);
-
-    success("Base template copied");
-
-    info("Generating example-specific files...");
-
-    // Generate README
-    generateREADME(exampleName, EXAMPLES_MAP[exampleName], absoluteOutputDir);
-    success("README.md generated");
-
-    // Generate deployment script
-    generateDeploymentScript(absoluteOutputDir);
-    success("Deployment script generated");
-
-    // Create .gitignore
-    const gitignore = `node_modules/
-.env
-.env.local
-dist/
-artifacts/
-cache/
-coverage/
-types/
-fhevmTemp/
-.DS_Store
-*.log
-`;
-    fs.writeFileSync(path.join(absoluteOutputDir, ".gitignore"), gitignore);
-
-    // Create .env.example if it doesn't exist
-    if (!fs.existsSync(path.join(absoluteOutputDir, ".env.example"))) {
-      const envExample = `SEPOLIA_RPC_URL=https://sepolia.infura.io/v3/YOUR_KEY
-PRIVATE_KEY=your_private_key
-ETHERSCAN_API_KEY=your_api_key
-REPORT_GAS=false
-`;
-      fs.writeFileSync(path.join(absoluteOutputDir, ".env.example"), envExample);
+    if (err instanceof CreateExampleError) {
+      error(err.message);
     }
-
-    success(`Example project created successfully!`);
-    success(`Location: ${absoluteOutputDir}`);
-
-    log("\nNext steps:", Color.Cyan);
-    console.log(`1. cd ${finalOutputDir}`);
-    console.log(`2. npm install`);
-    console.log(`3. npm run compile`);
-    console.log(`4. npm test`);
-
-    info("For more details, see README.md in the generated directory");
-  } catch (err) {
     error(`Failed to create example: ${err}`);
   }
+
+  printResult(result, options);
 }
 
 // Main execution
@@ -504,11 +277,83 @@ if (args.includes("--list") || args.includes("-l")) {
   process.exit(0);
 }
 
-if (args.length === 0) {
-  error("No example specified. Use --help for usage information.");
+// Options that take a value, as "--category basic" or "--category=basic"
+const VALUE_OPTIONS = ["--category", "--examples"];
+
+function optionValue(name: string): string | undefined {
+  const inline = args.find((arg) => arg.startsWith(`${name}=`));
+  if (inline) return inline.slice(name.length + 1);
+
+  const index = args.indexOf(name);
+  if (index === -1) return undefined;
+  const value = args[index + 1];
+  if (value === undefined || value.startsWith("-")) {
+    error(`${name} needs a value. Use --help for usage information.`);
+  }
+  return value;
+}
+
+const positional = args.filter(
+  (arg, index) => !arg.startsWith("-") && !VALUE_OPTIONS.includes(args[index - 1])
+);
+
+if (positional[0] === "doctor") {
+  const report = runDoctor(positional[1] ?? ".");
+  printDoctorReport(report);
+  process.exit(report.passed ? 0 : 1);
+}
+
+if (positional[0] === "new") {
+  const newCategory = optionValue("--category");
+  if (positional.length !== 2 || newCategory === undefined) {
+    error("Usage: new <name> --category <name>");
+  }
+
+  try {
+    printScaffoldResult(scaffoldExample({ name: positional[1], category: newCategory, registry }));
+  } catch (err) {
+    if (err instanceof FileConflictError) {
+      error(`Files already exist: ${err.conflicts.join(", ")}`);
+    }
+    if (err instanceof CreateExampleError) {
+      error(err.message);
+    }
+    error(`Failed to create example: ${err}`);
+  }
+  process.exit(0);
+}
+
+if (args.includes("--force") && args.includes("--skip-existing")) {
+  error("--force and --skip-existing cannot be combined");
 }
 
-const exampleName = args[0];
-const outputDir = args[1];
+const options: CreateExampleOptions = {
+  dryRun: args.includes("--dry-run"),
+  diff: args.includes("--diff"),
+  withFrontend: args.includes("--with-frontend"),
+  policy: args.includes("--force") ? "force" : args.includes("--skip-existing") ? "skip-existing" : undefined,
+};
 
-createExample(exampleName, outputDir);
+const category = optionValue("--category");
+const exampleList = optionValue("--examples");
+
+if (category !== undefined || exampleList !== undefined) {
+  if (category !== undefined && exampleList !== undefined) {
+    error("--category and --examples cannot be combined");
+  }
+  if (positional.length > 1) {
+    error("With --category or --examples, the only argument is the output directory");
+  }
+
+  const examples = exampleList
+    ?.split(",")
+    .map((name) => name.trim())
+    .filter((name) => name.length > 0);
+  run({ ...options, category, examples, outputDir: positional[0] });
+} else {
+  if (positional.length === 0) {
+    error("No example specified. Use --help for usage information.");
+  }
+
+  run({ ...options, example: positional[0], outputDir: positional[1] });
+}
@@ -0,0 +1,369 @@
+/**
+ * Contract API model for generated docs - from compiler output, or the source
+ *
+ * When the contract has been compiled from its current sources, its members
+ * come from the Hardhat artifact and the build-info it points to: the ABI
+ * gives exact signatures and state mutability, and solc's devdoc/userdoc give
+ * their documentation. Otherwise the `.sol` file, the contracts it inherits
+ * from and the libraries it calls are parsed (see loadSourceAbi), which gives
+ * the same members.
+ *
+ * solc joins the lines of a comment into one, which loses the `## Pattern:`
+ * sections these examples write. So where a source has NatSpec for the same
+ * declaration, in the contract or in the parent or library declaring it, that
+ * parsed doc is kept; devdoc/userdoc fill in the rest. Both ways then render
+ * the same page.
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import { ErrorFragment, EventFragment, Fragment, FunctionFragment } from "ethers";
+import {
+  AbiEntry,
+  AbiParameter,
+  contractNameFromPath,
+  findSourceMember,
+  isRecord,
+  loadCompiledContract,
+  loadSourceAbi,
+  stripComments,
+} from "./contract-interface";
+import { DeclarationKind, DocumentedDeclaration, NatSpecDoc, parseNatSpec } from "./natspec";
+
+export interface ApiEntry extends DocumentedDeclaration {
+  // Canonical ABI signature, e.g. "increment(bytes32,bytes)"; unset for non-ABI declarations
+  abiSignature?: string;
+  // 4-byte selector of a function or error, topic 0 of an event
+  selector?: string;
+  stateMutability?: AbiEntry["stateMutability"];
+  // Where the docs came from
+  docSource: "natspec" | "compiler" | "none";
+}
+
+export interface ContractApi {
+  contractName: string;
+  // The contract's source file, relative to the repository root
+  contractPath: string;
+  // "build-info": artifact plus devdoc/userdoc; "artifact": ABI only; "source": parsed .sol
+  origin: "build-info" | "artifact" | "source";
+  // File the members were read from, relative to the repository root
+  originPath: string;
+  doc?: NatSpecDoc;
+  entries: ApiEntry[];
+}
+
+// The parts of solc's devdoc/userdoc output that are used here
+interface DocOutput {
+  title?: string;
+  author?: string;
+  details?: string;
+  notice?: string;
+  methods?: Record<string, DocEntry>;
+  events?: Record<string, DocEntry>;
+  errors?: Record<string, DocEntry[]>;
+  stateVariables?: Record<string, DocEntry>;
+}
+
+interface DocEntry {
+  details?: string;
+  notice?: string;
+  params?: Record<string, string>;
+  returns?: Record<string, string>;
+  return?: string;
+  [custom: string]: unknown;
+}
+
+interface CompilerOutput {
+  abi: AbiEntry[];
+  devdoc?: DocOutput;
+  userdoc?: DocOutput;
+  origin: "build-info" | "artifact";
+  originPath: string;
+}
+
+function docOutput(value: unknown): DocOutput | undefined {
+  return isRecord(value) ? (value as DocOutput) : undefined;
+}
+
+/**
+ * The compiler output for a contract whose artifact matches its sources.
+ * devdoc/userdoc are only in the output when requested explicitly; Hardhat's
+ * default settings carry them in the metadata.
+ */
+function loadCompilerOutput(contractPath: string, rootDir: string): CompilerOutput | undefined {
+  const compiled = loadCompiledContract(contractPath, rootDir);
+  if (!compiled) return undefined;
+
+  const { output } = compiled;
+  if (!output) {
+    return { abi: compiled.abi, origin: "artifact", originPath: path.relative(rootDir, compiled.artifactFile) };
+  }
+
+  let devdoc = docOutput(output.devdoc);
+  let userdoc = docOutput(output.userdoc);
+  if ((!devdoc || !userdoc) && typeof output.metadata === "string") {
+    let metadata: unknown;
+    try {
+      metadata = JSON.parse(output.metadata);
+    } catch {
+      metadata = undefined;
+    }
+    const metadataOutput = isRecord(metadata) ? metadata.output : undefined;
+    if (isRecord(metadataOutput)) {
+      devdoc ??= docOutput(metadataOutput.devdoc);
+      userdoc ??= docOutput(metadataOutput.userdoc);
+    }
+  }
+
+  return {
+    abi: Array.isArray(output.abi) ? (output.abi as AbiEntry[]) : compiled.abi,
+    devdoc,
+    userdoc,
+    origin: "build-info",
+    originPath: path.relative(rootDir, compiled.buildInfoFile),
+  };
+}
+
+// Encrypted types are user-defined value types over bytes32 handles
+const ENCRYPTED_TYPE = /^(?:external)?E(?:uint\d+|int\d+|bool|address|bytes\d+)$/i;
+const ELEMENTARY_TYPE = /^(?:address|bool|string|bytes\d*|u?int\d*|u?fixed[\dx]*)$/;
+
+/**
+ * The ABI type of a type parsed from source, or undefined for types that need
+ * the compiler to resolve (structs, enums, contracts).
+ */
+function abiType(type: string): string | undefined {
+  const [, base, arrays] = /^([^[]+)((?:\[\d*\])*)$/.exec(type) ?? [];
+  if (!base) return undefined;
+  if (ENCRYPTED_TYPE.test(base)) return `bytes32${arrays}`;
+  if (!ELEMENTARY_TYPE.test(base)) return undefined;
+  return base.replace(/^(u?int)$/, "$1256") + arrays;
+}
+
+/**
+ * Source-parsed ABI entries with encrypted types mapped to bytes32, keeping
+ * the declared type as internalType. Entries with unresolvable types are
+ * returned as they are and get no selector.
+ */
+function resolveSourceEntry(entry: AbiEntry): { entry: AbiEntry; resolved: boolean } {
+  let resolved = true;
+  const resolve = (parameters?: AbiParameter[]) =>
+    parameters?.map((parameter) => {
+      const type = abiType(parameter.type);
+      if (!type) resolved = false;
+      return { ...parameter, type: type ?? parameter.type, internalType: parameter.type };
+    });
+
+  return { entry: { ...entry, inputs: resolve(entry.inputs), outputs: resolve(entry.outputs) }, resolved };
+}
+
+function fragmentInfo(entry: AbiEntry): { abiSignature?: string; selector?: string } {
+  try {
+    const fragment = Fragment.from(entry);
+    if (fragment instanceof FunctionFragment) return { abiSignature: fragment.format("sighash"), selector: fragment.selector };
+    if (fragment instanceof EventFragment) return { abiSignature: fragment.format("sighash"), selector: fragment.topicHash };
+    if (fragment instanceof ErrorFragment) return { abiSignature: fragment.format("sighash"), selector: fragment.selector };
+    return { abiSignature: fragment.format("sighash") };
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * NatSpecDoc from the devdoc and userdoc entries of one member.
+ */
+function compilerDoc(dev: DocEntry | undefined, user: DocEntry | undefined): NatSpecDoc | undefined {
+  if (!dev && !user) return undefined;
+
+  const returns = Object.entries(dev?.returns ?? {}).map(([name, text]) =>
+    /^_\d+$/.test(name) ? text : `${name} ${text}`
+  );
+  if (dev?.return) returns.push(dev.return);
+
+  const custom: Record<string, string> = {};
+  for (const [key, value] of Object.entries(dev ?? {})) {
+    if (key.startsWith("custom:") && typeof value === "string") custom[key.slice("custom:".length)] = value;
+  }
+
+  return {
+    notice: user?.notice ?? "",
+    dev: dev?.details ?? "",
+    params: dev?.params ?? {},
+    returns,
+    custom,
+    sections: [],
+  };
+}
+
+function ownEntry(entries: Record<string, DocEntry> | undefined, key: string): DocEntry | undefined {
+  return entries && Object.prototype.hasOwnProperty.call(entries, key) ? entries[key] : undefined;
+}
+
+function docFor(entry: AbiEntry, abiSignature: string | undefined, output?: CompilerOutput): NatSpecDoc | undefined {
+  const { devdoc, userdoc } = output ?? {};
+  if (!devdoc && !userdoc) return undefined;
+
+  switch (entry.type) {
+    case "constructor":
+      // "constructor" is also an Object.prototype key, so look it up as an own property
+      return compilerDoc(ownEntry(devdoc?.methods, "constructor"), ownEntry(userdoc?.methods, "constructor"));
+    case "event":
+      return abiSignature ? compilerDoc(devdoc?.events?.[abiSignature], userdoc?.events?.[abiSignature]) : undefined;
+    case "error":
+      return abiSignature ? compilerDoc(devdoc?.errors?.[abiSignature]?.[0], userdoc?.errors?.[abiSignature]?.[0]) : undefined;
+    default:
+      if (!abiSignature) return undefined;
+      return (
+        compilerDoc(devdoc?.methods?.[abiSignature], userdoc?.methods?.[abiSignature]) ??
+        // Public state variable getters are documented under stateVariables
+        compilerDoc(devdoc?.stateVariables?.[entry.name ?? ""], userdoc?.methods?.[abiSignature])
+      );
+  }
+}
+
+function displayType(parameter: AbiParameter): string {
+  return (parameter.internalType ?? parameter.type).replace(/^(?:struct|enum|contract) (?:\w+\.)?/, "");
+}
+
+function displayParameters(parameters: AbiParameter[] = []): AbiParameter[] {
+  return parameters.map((parameter) => ({ ...parameter, type: displayType(parameter) }));
+}
+
+function abiSignatureText(entry: AbiEntry): string {
+  const list = (parameters: AbiParameter[] = []) =>
+    parameters.map((parameter) => [displayType(parameter), parameter.indexed ? "indexed" : "", parameter.name].filter(Boolean).join(" ")).join(", ");
+
+  if (entry.type === "constructor") return `constructor(${list(entry.inputs)})`;
+  if (entry.type === "event" || entry.type === "error") return `${entry.type} ${entry.name}(${list(entry.inputs)})`;
+
+  const mutability = entry.stateMutability && entry.stateMutability !== "nonpayable" ? ` ${entry.stateMutability}` : "";
+  const outputs = entry.outputs?.length ? ` returns (${list(entry.outputs)})` : "";
+  return `function ${entry.name}(${list(entry.inputs)}) external${mutability}${outputs}`;
+}
+
+/**
+ * The source declaration an ABI entry belongs to: same kind and name, and the
+ * same number of parameters to tell overloads apart.
+ */
+function findDeclaration(declarations: DocumentedDeclaration[], entry: AbiEntry): DocumentedDeclaration | undefined {
+  const kind: DeclarationKind = entry.type === "constructor" ? "constructor" : (entry.type as DeclarationKind);
+  const name = entry.type === "constructor" ? "constructor" : entry.name;
+
+  return (
+    declarations.find(
+      (declaration) =>
+        declaration.kind === kind &&
+        declaration.name === name &&
+        declaration.parameters.length === (entry.inputs ?? []).length
+    ) ?? declarations.find((declaration) => declaration.kind === "variable" && declaration.name === name)
+  );
+}
+
+/**
+ * 1-based line where an undocumented ABI member is declared, if it is declared
+ * in this source at all (inherited members are not).
+ */
+function declarationLine(source: string, entry: AbiEntry): number {
+  const pattern =
+    entry.type === "constructor"
+      ? /\bconstructor\s*\(/
+      : new RegExp(`\\b(?:function|event|error)\\s+${entry.name}\\s*\\(|\\bpublic\\s+(?:constant\\s+|immutable\\s+)?${entry.name}\\s*[;=]`);
+  const match = pattern.exec(source);
+  return match ? source.slice(0, match.index).split("\n").length : Number.MAX_SAFE_INTEGER;
+}
+
+/**
+ * Load the API of a contract for documentation.
+ */
+export function loadContractApi(contractPath: string, rootDir: string = process.cwd()): ContractApi {
+  const contractName = contractNameFromPath(contractPath);
+  const contractFile = path.resolve(rootDir, contractPath);
+  const source = fs.readFileSync(contractFile, "utf-8");
+  const declarations = parseNatSpec(source);
+  const code = stripComments(source.replace(/\r\n/g, "\n"));
+  const output = loadCompilerOutput(contractPath, rootDir);
+  const sourceAbi = loadSourceAbi(contractPath, rootDir);
+
+  let abi: { entry: AbiEntry; resolved: boolean }[];
+  if (output) {
+    abi = output.abi.map((entry) => ({ entry, resolved: true }));
+  } else if (sourceAbi.unresolved.length > 0) {
+    throw new Error(
+      `${contractName} inherits from ${sourceAbi.unresolved.join(", ")}, whose source was not found; install the project's dependencies or compile it`
+    );
+  } else {
+    abi = sourceAbi.abi.map(resolveSourceEntry);
+  }
+
+  // NatSpec of the parents and libraries declaring inherited members, by file
+  const inheritedDeclarations = new Map<string, DocumentedDeclaration[]>();
+  const inheritedDeclaration = (entry: AbiEntry): DocumentedDeclaration | undefined => {
+    const member = findSourceMember(sourceAbi.members, entry);
+    if (!member || member.file === contractFile) return undefined;
+    if (!inheritedDeclarations.has(member.file)) {
+      inheritedDeclarations.set(member.file, parseNatSpec(fs.readFileSync(member.file, "utf-8")));
+    }
+    return findDeclaration(inheritedDeclarations.get(member.file)!, entry);
+  };
+
+  const entries: ApiEntry[] = [];
+  const matched = new Set<DocumentedDeclaration>();
+
+  for (const { entry, resolved } of abi) {
+    if (!["constructor", "function", "event", "error"].includes(entry.type)) continue;
+
+    const info = resolved ? fragmentInfo(entry) : {};
+    const declaration = findDeclaration(declarations, entry);
+    const inherited = declaration ? undefined : inheritedDeclaration(entry);
+    const compiled = docFor(entry, info.abiSignature, output);
+    if (declaration) matched.add(declaration);
+
+    entries.push({
+      kind: declaration?.kind === "variable" ? "variable" : entry.type === "constructor" ? "constructor" : (entry.type as DeclarationKind),
+      name: entry.type === "constructor" ? "constructor" : entry.name ?? "",
+      line: declaration?.line ?? declarationLine(code, entry),
+      signature: declaration?.signature ?? abiSignatureText(entry),
+      parameters: displayParameters(entry.inputs),
+      returnParameters: displayParameters(entry.outputs),
+      doc: declaration?.doc ?? inherited?.doc ?? compiled ?? { notice: "", dev: "", params: {}, returns: [], custom: {}, sections: [] },
+      docSource: declaration || inherited ? "natspec" : compiled ? "compiler" : "none",
+      stateMutability: entry.type === "function" || entry.type === "constructor" ? entry.stateMutability : undefined,
+      ...info,
+    });
+  }
+
+  // Documented declarations that aren't part of the ABI: structs, modifiers, private state
+  for (const declaration of declarations) {
+    if (matched.has(declaration) || ["contract", "library", "interface", "none"].includes(declaration.kind)) continue;
+    entries.push({ ...declaration, docSource: "natspec" });
+  }
+
+  // Inherited members share a line past the end; order them by name, as solc orders the ABI
+  entries.sort((a, b) => a.line - b.line || (a.name < b.name ? -1 : a.name > b.name ? 1 : 0));
+
+  const contractDoc = declarations.find(
+    (declaration) => declaration.kind === "contract" && declaration.name === contractName
+  )?.doc;
+  const compiledContractDoc =
+    output?.devdoc || output?.userdoc
+      ? {
+          title: output.devdoc?.title,
+          author: output.devdoc?.author,
+          notice: output.userdoc?.notice ?? "",
+          dev: output.devdoc?.details ?? "",
+          params: {},
+          returns: [],
+          custom: {},
+          sections: [],
+        }
+      : undefined;
+
+  return {
+    contractName,
+    contractPath,
+    origin: output?.origin ?? "source",
+    originPath: output?.originPath ?? contractPath,
+    doc: contractDoc ?? compiledContractDoc,
+    entries,
+  };
+}
@@ -0,0 +1,416 @@
+/**
+ * API reference for example contracts
+ *
+ * Renders a ContractApi - the contract itself, state variables, structs,
+ * modifiers, events, errors and functions - with selectors, event topics and
+ * state mutability, and parameter and return tables built from the types and
+ * the @param/@return texts.
+ *
+ * The other sections of a docs page come from the same sources: the overview
+ * from the contract's own NatSpec, the FHE operations from the calls in its
+ * code, the access-control tables from its modifiers, requires and emits, the
+ * lifecycle diagrams from its timing checks and status strings, and the
+ * patterns from the `## Pattern:` blocks on its functions.
+ */
+
+import { ApiEntry, ContractApi } from "./contract-api";
+import { AbiParameter } from "./contract-interface";
+import { DeclarationKind, DocumentedDeclaration, NatSpecDoc, NatSpecSection } from "./natspec";
+import { FheOperation, FunctionBehavior, Lifecycle, LifecycleCall, LifecycleStatus, RevertReason } from "./source-analysis";
+
+// Reference sections, in page order
+const SECTIONS: { title: string; kinds: DeclarationKind[] }[] = [
+  { title: "State Variables", kinds: ["variable"] },
+  { title: "Structs", kinds: ["struct"] },
+  { title: "Modifiers", kinds: ["modifier"] },
+  { title: "Events", kinds: ["event"] },
+  { title: "Errors", kinds: ["error"] },
+  { title: "Functions", kinds: ["constructor", "function"] },
+];
+
+// Table cells are single-line, with pipes escaped
+function cell(text: string): string {
+  return text.replace(/\s*\n\s*/g, " ").replace(/\|/g, "\\|").trim();
+}
+
+function formatType(parameter: AbiParameter): string {
+  return `\`${parameter.type}${parameter.indexed ? " indexed" : ""}\``;
+}
+
+function renderParameterTable(heading: string, parameters: AbiParameter[], descriptions: Record<string, string>): string {
+  if (parameters.length === 0) return "";
+
+  let table = `| ${heading} | Type | Description |\n|---|---|---|\n`;
+  for (const parameter of parameters) {
+    table += `| \`${parameter.name || "-"}\` | ${formatType(parameter)} | ${cell(descriptions[parameter.name] ?? "")} |\n`;
+  }
+  return `${table}\n`;
+}
+
+/**
+ * Pair return values with their @return texts by position. solc's convention
+ * is to start the text with the name when the return value is named.
+ */
+function renderReturnTable(returnParameters: AbiParameter[], returns: string[]): string {
+  const rows = Math.max(returnParameters.length, returns.length);
+  if (rows === 0) return "";
+
+  let table = "| Returns | Type | Description |\n|---|---|---|\n";
+  for (let i = 0; i < rows; i++) {
+    const parameter = returnParameters[i];
+    let description = returns[i] ?? "";
+    if (parameter?.name && description.startsWith(`${parameter.name} `)) {
+      description = description.slice(parameter.name.length + 1);
+    }
+    const type = parameter ? formatType(parameter) : "";
+    table += `| \`${parameter?.name || "-"}\` | ${type} | ${cell(description)} |\n`;
+  }
+  return `${table}\n`;
+}
+
+function renderDocText(doc: NatSpecDoc): string {
+  let text = "";
+  if (doc.notice) text += `${doc.notice}\n\n`;
+  if (doc.dev) text += `${doc.dev}\n\n`;
+  for (const [tag, value] of Object.entries(doc.custom)) {
+    text += `**@custom:${tag}** ${value}\n\n`;
+  }
+  return text;
+}
+
+// "## Pattern: FHE.add", "## FHEVM Pattern: ...", "## FHEVM Integration Pattern"
+function isPatternSection(section: NatSpecSection): boolean {
+  return /(^|\s)Pattern(:|$)/i.test(section.heading);
+}
+
+// Pattern sections are rendered once, in the page's patterns section
+function renderSections(doc: NatSpecDoc): string {
+  return doc.sections
+    .filter((section) => !isPatternSection(section))
+    .map((section) => `**${section.heading}**\n\n${section.body}\n\n`)
+    .join("");
+}
+
+// A doc comment section one level below the page section it is rendered in
+function renderNestedSection(section: NatSpecSection): string {
+  const heading = "#".repeat(Math.min(section.level + 1, 6));
+  return `${heading} ${section.heading}\n\n${section.body ? `${section.body}\n\n` : ""}`;
+}
+
+function renderAbiInfo(declaration: ApiEntry): string {
+  const facts: string[] = [];
+  if (declaration.selector) {
+    const label = declaration.kind === "event" ? "Topic" : "Selector";
+    facts.push(`**${label}:** \`${declaration.selector}\` (\`${declaration.abiSignature}\`)`);
+  }
+  if (declaration.stateMutability) {
+    facts.push(`**Mutability:** \`${declaration.stateMutability}\``);
+  }
+  return facts.length > 0 ? `${facts.join(" · ")}\n\n` : "";
+}
+
+function renderDeclaration(declaration: ApiEntry): string {
+  const { doc } = declaration;
+  let entry = `#### \`${declaration.name}\`\n\n`;
+  entry += "```solidity\n" + declaration.signature + "\n```\n\n";
+  entry += renderAbiInfo(declaration);
+  entry += renderDocText(doc);
+
+  if (declaration.kind === "struct") {
+    entry += renderParameterTable("Field", declaration.parameters, doc.params);
+  } else if (declaration.kind !== "variable") {
+    entry += renderParameterTable("Parameter", declaration.parameters, doc.params);
+    entry += renderReturnTable(declaration.returnParameters, doc.returns);
+  }
+
+  return entry + renderSections(doc);
+}
+
+/**
+ * Markdown reference for one contract: the contract's own docs, then one
+ * section per kind of declaration.
+ */
+export function renderContractReference(api: ContractApi): string {
+  let reference = `### Contract: ${api.contractName}\n\n`;
+  // The same whether the members were compiled or parsed, so the page doesn't depend on build state
+  reference += `*Members of \`${api.contractPath}\`, including those it inherits and the library events and errors it can emit*\n\n`;
+
+  for (const { title, kinds } of SECTIONS) {
+    const entries = api.entries.filter((declaration) => kinds.includes(declaration.kind));
+    if (entries.length === 0) continue;
+
+    reference += `### ${title}\n\n`;
+    for (const declaration of entries) {
+      reference += renderDeclaration(declaration);
+    }
+  }
+
+  return reference;
+}
+
+/**
+ * The contract's own NatSpec - @title, @notice, @dev and its `##` sections -
+ * followed by free-standing doc comments such as a closing anti-patterns
+ * block. Empty when the contract has no docs.
+ */
+export function renderOverview(api: ContractApi, declarations: DocumentedDeclaration[]): string {
+  let overview = "";
+  if (api.doc) {
+    if (api.doc.title) overview += `**${api.doc.title}**\n\n`;
+    overview += renderDocText(api.doc);
+    overview += api.doc.sections.map(renderNestedSection).join("");
+  }
+
+  for (const declaration of declarations) {
+    if (declaration.kind !== "none") continue;
+    overview += renderDocText(declaration.doc);
+    overview += declaration.doc.sections.map(renderNestedSection).join("");
+  }
+
+  return overview;
+}
+
+/**
+ * Table of the external and public functions, with the first line of each
+ * one's notice.
+ */
+export function renderPublicFunctions(api: ContractApi): string {
+  const functions = api.entries.filter((entry) => entry.kind === "function" && entry.stateMutability);
+  if (functions.length === 0) return "";
+
+  let table = "| Function | Mutability | Description |\n|---|---|---|\n";
+  for (const fn of functions) {
+    const description = (fn.doc.notice || fn.doc.dev).split("\n")[0];
+    table += `| \`${fn.name}(${fn.parameters.map((parameter) => parameter.type).join(", ")})\` | \`${fn.stateMutability}\` | ${cell(description)} |\n`;
+  }
+  return `${table}\n`;
+}
+
+export function renderFheOperations(operations: FheOperation[]): string {
+  if (operations.length === 0) return "";
+
+  let table = "| Operation | Purpose | Calls | Used in |\n|---|---|---|---|\n";
+  for (const operation of operations) {
+    const usedIn = operation.usedIn.map((name) => `\`${name}\``).join(", ");
+    table += `| \`FHE.${operation.name}\` | ${operation.description} | ${operation.calls} | ${usedIn} |\n`;
+  }
+  return `${table}\n`;
+}
+
+/**
+ * The `## Pattern:` blocks documented on functions, modifiers and the
+ * constructor, each with the declarations it appears on. A pattern repeated
+ * on several functions is shown once.
+ */
+function code(text: string): string {
+  return `\`${cell(text)}\``;
+}
+
+function renderRevertReason(reason: RevertReason): string {
+  const message = reason.message ? code(reason.message) : "*no message*";
+  return reason.via ? `${message} *(${reason.via})*` : message;
+}
+
+// Entries of a one-to-many index, in order of first appearance
+function indexBy(behaviors: FunctionBehavior[], keys: (behavior: FunctionBehavior) => string[]): Map<string, string[]> {
+  const index = new Map<string, string[]>();
+  for (const behavior of behaviors) {
+    for (const key of keys(behavior)) {
+      const names = index.get(key) ?? [];
+      if (!names.includes(behavior.name)) names.push(behavior.name);
+      index.set(key, names);
+    }
+  }
+  return index;
+}
+
+/**
+ * Per public function and constructor: the modifiers guarding it, the events
+ * it emits and the messages it can revert with, followed by indexes from each
+ * revert message and each event back to the functions that raise it.
+ */
+export function renderAccessControl(behaviors: FunctionBehavior[]): string {
+  const callable = behaviors.filter(
+    (behavior) =>
+      behavior.kind === "constructor" ||
+      (behavior.kind === "function" && (behavior.visibility === "public" || behavior.visibility === "external"))
+  );
+  if (!callable.some((behavior) => behavior.modifiers.length || behavior.events.length || behavior.reverts.length)) {
+    return "";
+  }
+
+  const list = (items: string[]) => (items.length ? items.join("<br>") : "-");
+
+  let rendered = "### By Function\n\n";
+  rendered += "| Function | Modifiers | Emits | Reverts with |\n|---|---|---|---|\n";
+  for (const behavior of callable) {
+    const reverts = behavior.reverts.map(renderRevertReason).filter((reason, i, all) => all.indexOf(reason) === i);
+    rendered += `| \`${behavior.name}\` | ${list(behavior.modifiers.map(code))} | ${list(behavior.events.map(code))} | ${list(reverts)} |\n`;
+  }
+  rendered += "\n";
+
+  const reverts = indexBy(callable, (behavior) => behavior.reverts.map((reason) => reason.message).filter(Boolean));
+  if (reverts.size > 0) {
+    rendered += "### Revert Reasons\n\n| Message | Raised by |\n|---|---|\n";
+    for (const [message, names] of reverts) {
+      rendered += `| ${code(message)} | ${names.map(code).join(", ")} |\n`;
+    }
+    rendered += "\n";
+  }
+
+  const events = indexBy(callable, (behavior) => behavior.events);
+  if (events.size > 0) {
+    rendered += "### Events Emitted\n\n| Event | Emitted by |\n|---|---|\n";
+    for (const [event, names] of events) {
+      rendered += `| ${code(event)} | ${names.map(code).join(", ")} |\n`;
+    }
+    rendered += "\n";
+  }
+
+  return rendered;
+}
+
+// Mermaid state id for a status: "Reveal phase" -> "RevealPhase"
+function stateId(status: string): string {
+  return status.replace(/(^|[^A-Za-z0-9]+)([A-Za-z0-9])/g, (_, __, first: string) => first.toUpperCase());
+}
+
+function timeWindow(status: LifecycleStatus): string {
+  if (status.from && status.until) return `from \`${status.from}\` until \`${status.until}\``;
+  if (status.until) return `until \`${status.until}\``;
+  return status.from ? `from \`${status.from}\`` : "-";
+}
+
+function renderStateDiagram(lifecycle: Lifecycle): string {
+  const phases = lifecycle.statuses.filter((status) => status.kind === "phase");
+  const lines = ["stateDiagram-v2"];
+
+  for (const status of lifecycle.statuses) {
+    lines.push(`    state "${status.status}" as ${stateId(status.status)}`);
+  }
+
+  const initial = lifecycle.statuses.find((status) => status.kind === "initial");
+  if (initial) {
+    lines.push(`    [*] --> ${stateId(initial.status)}`);
+    if (lifecycle.creator && phases[0]) {
+      lines.push(`    ${stateId(initial.status)} --> ${stateId(phases[0].status)} : ${lifecycle.creator.name}()`);
+    }
+  } else if (phases[0]) {
+    lines.push(`    [*] --> ${stateId(phases[0].status)}${lifecycle.creator ? ` : ${lifecycle.creator.name}()` : ""}`);
+  }
+
+  phases.forEach((phase, index) => {
+    const setters = lifecycle.statuses.filter((status) => status.kind === "flag").flatMap((status) => status.setBy);
+    for (const call of lifecycle.calls) {
+      if (call.phases.includes(phase.status) && !setters.includes(call.name)) {
+        lines.push(`    ${stateId(phase.status)} --> ${stateId(phase.status)} : ${call.name}()`);
+      }
+    }
+    const next = phases[index + 1];
+    if (next && phase.until) {
+      lines.push(`    ${stateId(phase.status)} --> ${stateId(next.status)} : block.timestamp >= ${phase.until}`);
+    }
+  });
+
+  const flags = lifecycle.statuses.filter((status) => status.kind === "flag");
+  for (const flag of flags) {
+    for (const call of lifecycle.calls.filter((candidate) => flag.setBy.includes(candidate.name))) {
+      for (const phase of call.phases) {
+        lines.push(`    ${stateId(phase)} --> ${stateId(flag.status)} : ${call.name}()`);
+      }
+    }
+    // A flag ends the lifecycle unless a call allowed in it switches on another one
+    const leaving = lifecycle.calls.filter(
+      (call) => call.phases.includes(flag.status) && flags.some((other) => other.setBy.includes(call.name))
+    );
+    if (leaving.length === 0) lines.push(`    ${stateId(flag.status)} --> [*]`);
+  }
+
+  return lines.join("\n");
+}
+
+// The calls in phase order, each in the first phase it is allowed in; calls
+// requiring a flag follow the call switching it on
+function renderSequenceDiagram(contractName: string, lifecycle: Lifecycle): string {
+  const lines = ["sequenceDiagram", "    actor User", `    participant Contract as ${contractName}`];
+  const seen = new Set<string>();
+  const message = (call: LifecycleCall) => {
+    seen.add(call.name);
+    lines.push(`    User->>Contract: ${call.name}()`);
+    for (const event of call.events) lines.push(`    Contract-->>User: ${event}`);
+    for (const flag of lifecycle.statuses.filter((status) => status.setBy.includes(call.name))) {
+      lines.push(`    Note over User,Contract: ${flag.status}`);
+      for (const next of lifecycle.calls.filter((candidate) => candidate.phases[0] === flag.status)) {
+        if (!seen.has(next.name)) message(next);
+      }
+    }
+  };
+
+  if (lifecycle.creator) message(lifecycle.creator);
+
+  for (const phase of lifecycle.statuses.filter((status) => status.kind === "phase")) {
+    lines.push(`    Note over User,Contract: ${phase.status} (${timeWindow(phase).replace(/`/g, "")})`);
+    const calls = lifecycle.calls.filter((call) => call.conditions.length > 0 && call.phases[0] === phase.status);
+    for (const call of calls) {
+      if (!seen.has(call.name)) message(call);
+    }
+  }
+
+  return lines.join("\n");
+}
+
+/**
+ * State and sequence diagrams of the lifecycle, with a table of each status,
+ * its time window and the calls allowed in it.
+ */
+export function renderLifecycle(contractName: string, lifecycle: Lifecycle): string {
+  let rendered = `Derived from the \`block.timestamp\` checks in the contract and the statuses returned by \`${lifecycle.statusFunction}\`.\n\n`;
+
+  // Before creation, then the timed phases, then the flags
+  const kinds: LifecycleStatus["kind"][] = ["initial", "phase", "flag"];
+  const statuses = kinds.flatMap((kind) => lifecycle.statuses.filter((status) => status.kind === kind));
+
+  rendered += "| Status | Time window | Allowed calls |\n|---|---|---|\n";
+  for (const status of statuses) {
+    let window = "-";
+    let calls: string[] = [];
+    if (status.kind === "phase") {
+      window = timeWindow(status);
+      calls = lifecycle.calls.filter((call) => call.phases.includes(status.status)).map((call) => call.name);
+    } else if (status.kind === "flag") {
+      window = `after ${status.setBy.map(code).join(", ")}`;
+      calls = lifecycle.calls.filter((call) => call.phases.includes(status.status)).map((call) => call.name);
+    } else if (lifecycle.creator) {
+      calls = [lifecycle.creator.name];
+    }
+    rendered += `| ${code(status.status)} | ${window} | ${calls.map(code).join(", ") || "-"} |\n`;
+  }
+  rendered += "\n";
+
+  rendered += "### State Diagram\n\n```mermaid\n" + renderStateDiagram(lifecycle) + "\n```\n\n";
+  rendered += "### Sequence Diagram\n\n```mermaid\n" + renderSequenceDiagram(contractName, lifecycle) + "\n```\n\n";
+  return rendered;
+}
+
+export function renderPatterns(declarations: DocumentedDeclaration[]): string {
+  const patterns = new Map<string, { body: string; declarations: string[] }>();
+
+  for (const declaration of declarations) {
+    if (!["function", "modifier", "constructor"].includes(declaration.kind)) continue;
+    for (const section of declaration.doc.sections) {
+      if (!isPatternSection(section)) continue;
+      const name = section.heading.replace(/^(FHEVM\s+)?Pattern:\s*/i, "");
+      const pattern = patterns.get(name) ?? { body: section.body, declarations: [] };
+      pattern.declarations.push(declaration.name);
+      patterns.set(name, pattern);
+    }
+  }
+
+  let rendered = "";
+  for (const [name, { body, declarations: usedIn }] of patterns) {
+    rendered += `### ${name}\n\n`;
+    rendered += `*Documented on ${usedIn.map((declaration) => `\`${declaration}\``).join(", ")}*\n\n`;
+    if (body) rendered += `${body}\n\n`;
+  }
+  return rendered;
+}
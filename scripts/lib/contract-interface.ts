@@ -0,0 +1,587 @@
+/**
+ * Contract interface loading - ABI from Hardhat artifacts, with a source fallback
+ *
+ * The generators need to know a contract's constructor, functions and events.
+ * When the contract has been compiled from its current sources, the Hardhat
+ * artifact is the source of truth. Otherwise the `.sol` file and the contracts
+ * it inherits from are parsed for declarations, which is good enough for
+ * names, parameter lists, visibility and mutability.
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+
+export interface AbiParameter {
+  name: string;
+  type: string;
+  // Solidity type as declared, e.g. "externalEuint32" for a bytes32 handle (artifacts only)
+  internalType?: string;
+  indexed?: boolean;
+  components?: AbiParameter[];
+}
+
+export interface AbiEntry {
+  type: "constructor" | "function" | "event" | "error" | "fallback" | "receive";
+  name?: string;
+  inputs?: AbiParameter[];
+  outputs?: AbiParameter[];
+  stateMutability?: "pure" | "view" | "nonpayable" | "payable";
+}
+
+export interface ContractInterface {
+  contractName: string;
+  abi: AbiEntry[];
+  // Where the ABI came from
+  origin: "artifact" | "source";
+  // Artifact or source file the ABI was read from, relative to the repository root
+  originPath: string;
+  // Where the members parsed from the sources are declared, to tell inherited members apart
+  members: SourceMember[];
+}
+
+// The parts of fs the source parser reads through, so a caller's FileSystem can stand in
+export interface SourceFiles {
+  existsSync(filePath: string): boolean;
+  readFileSync(filePath: string): Buffer;
+}
+
+const HARDHAT_CONFIGS = ["hardhat.config.ts", "hardhat.config.js"];
+
+// Contracts outside a Hardhat project (contracts/basic) are built with the base template's dependencies
+const TEMPLATE_DIR = "base-template";
+
+export function hasHardhatConfig(dir: string): boolean {
+  return HARDHAT_CONFIGS.some((config) => fs.existsSync(path.join(dir, config)));
+}
+
+/**
+ * Directory of the Hardhat project a contract belongs to: the closest ancestor
+ * holding a hardhat config, or the repository root.
+ */
+export function findProjectRoot(contractPath: string, rootDir: string): string {
+  let dir = path.dirname(path.resolve(rootDir, contractPath));
+  const stop = path.resolve(rootDir);
+
+  while (dir.startsWith(stop)) {
+    if (hasHardhatConfig(dir)) {
+      return dir;
+    }
+    if (dir === stop) break;
+    dir = path.dirname(dir);
+  }
+
+  return stop;
+}
+
+export function contractNameFromPath(contractPath: string): string {
+  return path.basename(contractPath, ".sol");
+}
+
+/**
+ * Path of the Hardhat artifact for a contract, e.g.
+ * base-template/contracts/FHEMVoting.sol -> base-template/artifacts/contracts/FHEMVoting.sol/FHEMVoting.json
+ */
+export function artifactPathFor(contractPath: string, rootDir: string): string {
+  const projectRoot = findProjectRoot(contractPath, rootDir);
+  const sourcePath = path.relative(projectRoot, path.resolve(rootDir, contractPath));
+  const contractName = contractNameFromPath(contractPath);
+  return path.join(projectRoot, "artifacts", sourcePath, `${contractName}.json`);
+}
+
+export interface CompiledContract {
+  abi: AbiEntry[];
+  artifactFile: string;
+  buildInfoFile: string;
+  // solc's output for the contract in the build-info (abi, devdoc, userdoc, metadata, ...)
+  output?: Record<string, unknown>;
+}
+
+export function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+export function readJson(file: string): unknown {
+  try {
+    return JSON.parse(fs.readFileSync(file, "utf-8"));
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Packages are looked up like Node does, in the node_modules of the importing
+ * file's ancestors, and then in the base template's.
+ */
+function resolveSourceImport(
+  specifier: string,
+  fromFile: string,
+  rootDir: string,
+  files: SourceFiles = fs
+): string | undefined {
+  if (specifier.startsWith(".")) {
+    const file = path.resolve(path.dirname(fromFile), specifier);
+    return files.existsSync(file) ? file : undefined;
+  }
+
+  const candidates: string[] = [];
+  for (let dir = path.dirname(fromFile); ; dir = path.dirname(dir)) {
+    candidates.push(path.join(dir, "node_modules", specifier));
+    if (dir === path.dirname(dir)) break;
+  }
+  candidates.push(path.join(rootDir, TEMPLATE_DIR, "node_modules", specifier));
+  return candidates.find((file) => files.existsSync(file));
+}
+
+/**
+ * The compiled artifact of a contract, if it was built from the sources now on
+ * disk: every project source in the build-info's compiler input must match its file.
+ * Hardhat only rewrites artifacts when the content changes, so file times
+ * can't tell a stale artifact from one that is up to date.
+ */
+export function loadCompiledContract(contractPath: string, rootDir: string = process.cwd()): CompiledContract | undefined {
+  const artifactFile = artifactPathFor(contractPath, rootDir);
+  const artifact = fs.existsSync(artifactFile) ? readJson(artifactFile) : undefined;
+  if (!isRecord(artifact) || !Array.isArray(artifact.abi)) return undefined;
+
+  const dbgFile = artifactFile.replace(/\.json$/, ".dbg.json");
+  const dbg = fs.existsSync(dbgFile) ? readJson(dbgFile) : undefined;
+  if (!isRecord(dbg) || typeof dbg.buildInfo !== "string") return undefined;
+
+  const buildInfoFile = path.resolve(path.dirname(dbgFile), dbg.buildInfo);
+  const buildInfo = fs.existsSync(buildInfoFile) ? readJson(buildInfoFile) : undefined;
+  const input = isRecord(buildInfo) && isRecord(buildInfo.input) ? buildInfo.input : undefined;
+  if (!isRecord(input?.sources)) return undefined;
+
+  // Dependencies are only checked to exist: plugins may rewrite them for the build
+  const projectRoot = findProjectRoot(contractPath, rootDir);
+  for (const [sourceName, source] of Object.entries(input.sources)) {
+    const file = path.join(projectRoot, sourceName);
+    if (fs.existsSync(file)) {
+      if (!isRecord(source) || source.content !== fs.readFileSync(file, "utf-8")) return undefined;
+    } else if (!resolveSourceImport(sourceName, artifactFile, rootDir)) {
+      return undefined;
+    }
+  }
+
+  const contracts = isRecord(buildInfo) && isRecord(buildInfo.output) ? buildInfo.output.contracts : undefined;
+  const sourceContracts = isRecord(contracts) ? contracts[String(artifact.sourceName)] : undefined;
+  const output = isRecord(sourceContracts) ? sourceContracts[String(artifact.contractName)] : undefined;
+
+  return {
+    abi: artifact.abi as AbiEntry[],
+    artifactFile,
+    buildInfoFile,
+    output: isRecord(output) ? output : undefined,
+  };
+}
+
+/**
+ * Remove comments while keeping string literals intact.
+ */
+export function stripComments(source: string): string {
+  return source.replace(/("(?:\\.|[^"\\])*")|\/\*[\s\S]*?\*\/|\/\/[^\n]*/g, (match, str) =>
+    str ? str : match.replace(/[^\n]/g, " ")
+  );
+}
+
+/**
+ * Return the text between the parenthesis at `openIndex` and its match.
+ */
+export function balancedParens(source: string, openIndex: number): { inner: string; end: number } {
+  let depth = 0;
+  for (let i = openIndex; i < source.length; i++) {
+    if (source[i] === "(") depth++;
+    if (source[i] === ")") {
+      depth--;
+      if (depth === 0) {
+        return { inner: source.slice(openIndex + 1, i), end: i + 1 };
+      }
+    }
+  }
+  return { inner: source.slice(openIndex + 1), end: source.length };
+}
+
+function splitTopLevel(list: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let current = "";
+
+  for (const char of list) {
+    if (char === "(") depth++;
+    if (char === ")") depth--;
+    if (char === "," && depth === 0) {
+      parts.push(current);
+      current = "";
+    } else {
+      current += char;
+    }
+  }
+  if (current.trim()) parts.push(current);
+
+  return parts.map((part) => part.trim()).filter(Boolean);
+}
+
+const LOCATION_KEYWORDS = ["memory", "calldata", "storage", "payable"];
+
+export function parseParameters(list: string): AbiParameter[] {
+  return splitTopLevel(list).map((param) => {
+    const tokens = param.split(/\s+/);
+    const type = tokens[0];
+    const rest = tokens.slice(1).filter((token) => !LOCATION_KEYWORDS.includes(token));
+    const indexed = rest.includes("indexed");
+    const name = rest.filter((token) => token !== "indexed").pop() ?? "";
+
+    const parameter: AbiParameter = { name, type };
+    if (indexed) parameter.indexed = true;
+    return parameter;
+  });
+}
+
+function contractDeclaration(source: string, contractName: string): RegExpExecArray | null {
+  return new RegExp(`\\b(?:contract|interface|library)\\s+${contractName}\\b([^{]*)\\{`).exec(source);
+}
+
+/**
+ * Text from `start` up to the brace closing the block `start` is inside.
+ */
+function blockFrom(source: string, start: number): string {
+  let depth = 1;
+  for (let i = start; i < source.length; i++) {
+    if (source[i] === "{") depth++;
+    if (source[i] === "}") {
+      depth--;
+      if (depth === 0) return source.slice(start, i);
+    }
+  }
+  return source.slice(start);
+}
+
+/**
+ * Body of the `contract <name>` declaration, or the whole source if not found.
+ */
+function contractBody(source: string, contractName: string): string {
+  const match = contractDeclaration(source, contractName);
+  return match ? blockFrom(source, match.index + match[0].length) : source;
+}
+
+/**
+ * Bodies of a contract's or library's functions, by name. Overloads are joined,
+ * so anything one of them does is attributed to all.
+ */
+function functionBodies(body: string): Map<string, string> {
+  const bodies = new Map<string, string>();
+  const declaration = /\bfunction\s+(\w+)\s*\(/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = declaration.exec(body)) !== null) {
+    const { end } = balancedParens(body, match.index + match[0].length - 1);
+    const terminator = body.slice(end).search(/[{;]/);
+    if (terminator === -1 || body[end + terminator] === ";") continue;
+
+    const code = blockFrom(body, end + terminator + 1);
+    bodies.set(match[1], `${bodies.get(match[1]) ?? ""}\n${code}`);
+    declaration.lastIndex = end + terminator + 1 + code.length;
+  }
+  return bodies;
+}
+
+/**
+ * Members of every struct declared in the source, by struct name.
+ */
+export function parseStructs(source: string): Map<string, AbiParameter[]> {
+  const structs = new Map<string, AbiParameter[]>();
+  for (const [, name, members] of stripComments(source).matchAll(/\bstruct\s+(\w+)\s*\{([^}]*)\}/g)) {
+    structs.set(name, parseParameters(members.split(";").join(",")));
+  }
+  return structs;
+}
+
+/**
+ * Build an ABI-like description from Solidity source. Handles multi-line
+ * signatures; public state variables become view getters like solc does.
+ * Members of inherited contracts are not included (see loadSourceAbi).
+ */
+export function parseSourceAbi(
+  source: string,
+  contractName: string,
+  structs: Map<string, AbiParameter[]> = parseStructs(source)
+): AbiEntry[] {
+  const body = contractBody(stripComments(source), contractName);
+  const abi: AbiEntry[] = [];
+
+  const declaration = /\b(function|constructor|event|error)\b\s*(\w*)\s*\(/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = declaration.exec(body)) !== null) {
+    const [, kind, name] = match;
+    const { inner, end } = balancedParens(body, match.index + match[0].length - 1);
+
+    // Attributes run until the body or the terminating semicolon
+    const terminator = body.slice(end).search(/[{;]/);
+    const attributes = body.slice(end, terminator === -1 ? undefined : end + terminator);
+    declaration.lastIndex = end;
+
+    if (kind === "event" || kind === "error") {
+      abi.push({ type: kind, name, inputs: parseParameters(inner) });
+      continue;
+    }
+
+    const visibility = /\b(external|public|internal|private)\b/.exec(attributes)?.[1] ?? "public";
+    if (kind === "function" && (visibility === "internal" || visibility === "private")) continue;
+
+    const mutability = /\b(pure|view|payable)\b/.exec(attributes)?.[1] ?? "nonpayable";
+    const entry: AbiEntry = {
+      type: kind as "function" | "constructor",
+      inputs: parseParameters(inner),
+      stateMutability: mutability as AbiEntry["stateMutability"],
+    };
+
+    if (kind === "function") {
+      entry.name = name;
+      const returnsIndex = attributes.search(/\breturns\s*\(/);
+      entry.outputs =
+        returnsIndex === -1
+          ? []
+          : parseParameters(balancedParens(attributes, attributes.indexOf("(", returnsIndex)).inner);
+    }
+
+    abi.push(entry);
+  }
+
+  // Public state variables: `<type> public [constant|immutable] <name>`
+  const stateVariable = /^\s*((?:mapping\s*\([^;]*\))|[\w.[\]]+)\s+public\s+(?:constant\s+|immutable\s+)?(\w+)\s*[;=]/gm;
+  while ((match = stateVariable.exec(body)) !== null) {
+    let type = match[1];
+    const inputs: AbiParameter[] = [];
+
+    // Each mapping level becomes a getter argument
+    let mapping: RegExpExecArray | null;
+    while ((mapping = /^mapping\s*\(\s*([\w.]+)\s*=>\s*(.*)\)$/s.exec(type.trim())) !== null) {
+      inputs.push({ name: "", type: mapping[1] });
+      type = mapping[2].trim();
+    }
+
+    // A struct getter returns the members, leaving out arrays and mappings
+    const members = structs.get(type.split(".").pop() ?? type);
+    const outputs = members
+      ? members.filter((member) => !member.type.endsWith("]") && !member.type.startsWith("mapping"))
+      : [{ name: "", type }];
+
+    abi.push({
+      type: "function",
+      name: match[2],
+      inputs,
+      outputs,
+      stateMutability: "view",
+    });
+  }
+
+  return abi;
+}
+
+export interface SourceMember {
+  entry: AbiEntry;
+  // Contract, parent contract or library declaring the member
+  declaredBy: string;
+  file: string;
+}
+
+export interface SourceAbi {
+  abi: AbiEntry[];
+  // Where each entry of `abi` is declared, in the same order
+  members: SourceMember[];
+  // Inherited contracts whose source wasn't found, so their members are missing
+  unresolved: string[];
+}
+
+function sameMember(a: AbiEntry, b: AbiEntry): boolean {
+  return a.type === b.type && a.name === b.name && (a.inputs ?? []).length === (b.inputs ?? []).length;
+}
+
+/**
+ * The source member an ABI entry (parsed or compiled) corresponds to.
+ */
+export function findSourceMember(members: SourceMember[], entry: AbiEntry): SourceMember | undefined {
+  return members.find((member) => sameMember(member.entry, entry));
+}
+
+export interface SourceAbiOptions {
+  // Defaults to the real file system
+  files?: SourceFiles;
+  // Defaults to the file name, for files declaring several contracts
+  contractName?: string;
+}
+
+interface LibrarySource {
+  name: string;
+  file: string;
+  functions: Map<string, string>;
+  // Events and errors the library declares
+  members: AbiEntry[];
+}
+
+/**
+ * Parse a contract and the contracts it inherits from, following its imports.
+ * An overridden member is listed once, as the most derived contract declares it.
+ *
+ * Like solc, the events and errors of libraries are included when code the
+ * contract runs can emit or revert with them: library calls are followed from
+ * the contract's code through the library functions they reach.
+ */
+export function loadSourceAbi(
+  contractPath: string,
+  rootDir: string = process.cwd(),
+  options: SourceAbiOptions = {}
+): SourceAbi {
+  const { files = fs, contractName = contractNameFromPath(contractPath) } = options;
+  const members: SourceMember[] = [];
+  const unresolved: string[] = [];
+  const visited = new Set<string>();
+  const sources = new Map<string, string>();
+
+  const read = (file: string): string => {
+    if (!sources.has(file)) sources.set(file, files.readFileSync(file).toString("utf-8"));
+    return sources.get(file)!;
+  };
+
+  const addMember = (entry: AbiEntry, declaredBy: string, file: string) => {
+    if (!members.some((member) => sameMember(member.entry, entry))) members.push({ entry, declaredBy, file });
+  };
+
+  // The file declaring `name`: `file` itself or, recursively, one of its imports
+  const findDeclaringFile = (name: string, file: string, seen = new Set<string>()): string | undefined => {
+    if (seen.has(file)) return undefined;
+    seen.add(file);
+
+    const source = stripComments(read(file));
+    if (contractDeclaration(source, name)) return file;
+
+    for (const [, specifier] of source.matchAll(/\bimport\s+(?:[^"';]*\bfrom\s+)?["']([^"']+)["']/g)) {
+      const imported = resolveSourceImport(specifier, file, rootDir, files);
+      const found = imported && findDeclaringFile(name, imported, seen);
+      if (found) return found;
+    }
+    return undefined;
+  };
+
+  // Code of the contract and its parents, where library calls start
+  const code: { body: string; file: string }[] = [];
+
+  const addContract = (name: string, file: string, inherited: boolean) => {
+    if (visited.has(name)) return;
+    visited.add(name);
+
+    const source = read(file);
+    for (const entry of parseSourceAbi(source, name, parseStructs(source))) {
+      if (inherited && entry.type === "constructor") continue;
+      addMember(entry, name, file);
+    }
+    code.push({ body: contractBody(stripComments(source), name), file });
+
+    const parents = contractDeclaration(stripComments(source), name)?.[1].match(/\bis\s+([\s\S]*)$/)?.[1] ?? "";
+    for (const parent of splitTopLevel(parents)) {
+      const parentName = /^[\w.]+/.exec(parent)?.[0].split(".").pop();
+      if (!parentName) continue;
+      const parentFile = findDeclaringFile(parentName, file);
+      if (parentFile) {
+        addContract(parentName, parentFile, true);
+      } else {
+        unresolved.push(parentName);
+      }
+    }
+  };
+
+  addContract(contractName, path.resolve(rootDir, contractPath), false);
+
+  const libraries = new Map<string, LibrarySource | undefined>();
+  const findLibrary = (name: string, fromFile: string): LibrarySource | undefined => {
+    if (!libraries.has(name)) {
+      const file = findDeclaringFile(name, fromFile);
+      const source = file ? read(file) : "";
+      const isLibrary = new RegExp(`\\blibrary\\s+${name}\\b`).test(stripComments(source));
+      libraries.set(
+        name,
+        file && isLibrary
+          ? {
+              name,
+              file,
+              functions: functionBodies(contractBody(stripComments(source), name)),
+              members: parseSourceAbi(source, name).filter((entry) => entry.type === "event" || entry.type === "error"),
+            }
+          : undefined
+      );
+    }
+    return libraries.get(name);
+  };
+
+  const reached = new Set<string>();
+  const visit = (body: string, file: string, library?: LibrarySource) => {
+    for (const [, qualifier, name] of body.matchAll(/\b(?:emit|revert)\s+(?:([A-Z]\w*)\.)?(\w+)\s*\(/g)) {
+      const declaring = qualifier ? findLibrary(qualifier, file) : library;
+      const entry = declaring?.members.find((member) => member.name === name);
+      if (declaring && entry) addMember(entry, declaring.name, declaring.file);
+    }
+    for (const [, qualifier, name] of body.matchAll(/(?:\b([A-Z]\w*)\.|(?<![\w.]))(\w+)\s*\(/g)) {
+      const callee = qualifier ? findLibrary(qualifier, file) : library;
+      if (!callee?.functions.has(name) || reached.has(`${callee.name}.${name}`)) continue;
+      reached.add(`${callee.name}.${name}`);
+      visit(callee.functions.get(name)!, callee.file, callee);
+    }
+  };
+  for (const { body, file } of code) {
+    visit(body, file);
+  }
+
+  return { abi: members.map((member) => member.entry), members, unresolved };
+}
+
+/**
+ * Load the interface of a contract, preferring its compiled artifact when it
+ * matches the sources.
+ */
+export function loadContractInterface(contractPath: string, rootDir: string = process.cwd()): ContractInterface {
+  const contractName = contractNameFromPath(contractPath);
+  const sourceAbi = loadSourceAbi(contractPath, rootDir);
+
+  const compiled = loadCompiledContract(contractPath, rootDir);
+  if (compiled) {
+    return {
+      contractName,
+      abi: compiled.abi,
+      origin: "artifact",
+      originPath: path.relative(rootDir, compiled.artifactFile),
+      members: sourceAbi.members,
+    };
+  }
+
+  return {
+    contractName,
+    abi: sourceAbi.abi,
+    origin: "source",
+    originPath: contractPath,
+    members: sourceAbi.members,
+  };
+}
+
+/**
+ * The contract or library declaring an ABI entry, when it isn't the contract
+ * itself. Entries missing from the parsed sources (an unresolved parent) count
+ * as inherited, from an unknown declaration.
+ */
+export function inheritedFrom(contract: ContractInterface, entry: AbiEntry): { declaredBy?: string } | undefined {
+  const member = findSourceMember(contract.members, entry);
+  if (member?.declaredBy === contract.contractName) return undefined;
+  return { declaredBy: member?.declaredBy };
+}
+
+export function findConstructor(abi: AbiEntry[]): AbiEntry | undefined {
+  return abi.find((entry) => entry.type === "constructor");
+}
+
+export function findFunctions(abi: AbiEntry[], name?: string): AbiEntry[] {
+  return abi.filter((entry) => entry.type === "function" && (name === undefined || entry.name === name));
+}
+
+export function findEvents(abi: AbiEntry[]): AbiEntry[] {
+  return abi.filter((entry) => entry.type === "event");
+}
@@ -0,0 +1,574 @@
+/**
+ * createExample - programmatic API behind the create-fhevm-example CLI
+ *
+ * Builds the complete file plan for a generated project in memory, compares it
+ * with the output directory and then previews or writes it. Nothing here
+ * prints or exits: the outcome is returned as a CreateExampleResult and every
+ * failure is thrown as a CreateExampleError subclass (see ./errors).
+ *
+ *   const result = createExample({ example: "fhe-counter", outputDir: "./counter" });
+ *   console.log(result.written, result.warnings, result.nextSteps);
+ *
+ * The output directory is accessed through a FileSystem, which defaults to
+ * Node's fs module; pass an in-memory implementation to generate without
+ * touching the disk. Example sources and the base template are always read
+ * from `rootDir`.
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import { ContractInterface, findProjectRoot, loadContractInterface } from "./contract-interface";
+import { generateDeploymentScript, generateHardhatDeployScript, validateDeployment } from "./deploy-scripts";
+import { unifiedDiff } from "./diff";
+import { CreateExampleError, FileConflictError, InvalidManifestError, InvalidOptionsError, UnknownExampleError } from "./errors";
+import { generateExampleDoc, generateREADME, generateWorkspaceREADME, loadExampleSources } from "./example-readme";
+import { discoverManifests, ExampleManifest, ManifestRegistry, MANIFEST_SUFFIX } from "./manifest";
+import { deployScriptPaths, exampleDestination } from "./project-layout";
+
+// The subset of Node's fs used for the output directory
+export interface FileSystem {
+  existsSync(filePath: string): boolean;
+  readFileSync(filePath: string): Buffer;
+  readdirSync(dirPath: string): string[];
+  statSync(filePath: string): { isDirectory(): boolean };
+  mkdirSync(dirPath: string, options: { recursive: true }): unknown;
+  writeFileSync(filePath: string, content: Buffer): void;
+}
+
+// How files that already exist on disk with different content are handled
+export type ConflictPolicy = "force" | "skip-existing";
+
+export interface CreateExampleOptions {
+  // Exactly one of example, category or examples selects what to generate
+  example?: string;
+  category?: string;
+  examples?: string[];
+  // Relative to rootDir; default examples/<example>, examples/<category> or examples/workspace
+  outputDir?: string;
+  // Plan and compare only, write nothing
+  dryRun?: boolean;
+  // Like dryRun, and also render a unified diff of every file that would change
+  diff?: boolean;
+  policy?: ConflictPolicy;
+  // Add a Vite + React client in frontend/, built from frontend-template/
+  withFrontend?: boolean;
+  // Repository root holding the manifests and base-template/ (default: cwd)
+  rootDir?: string;
+  // Pre-discovered manifests, e.g. to share one registry with --list
+  registry?: ManifestRegistry;
+}
+
+export interface PlannedFile {
+  path: string;
+  content: Buffer;
+  // create: not on disk yet; unchanged: identical on disk; conflict: on disk with other content
+  status: "create" | "unchanged" | "conflict";
+}
+
+export interface CreateExampleResult {
+  outputDir: string;
+  // The generated examples and where their ABI came from
+  examples: { name: string; contractName: string; abiSource: string }[];
+  files: PlannedFile[];
+  // True for dryRun/diff: nothing was written
+  preview: boolean;
+  // Unified diff of every changed file; empty unless the diff option is set
+  diff: string;
+  // Paths relative to outputDir
+  written: string[];
+  kept: string[];
+  warnings: string[];
+  nextSteps: string[];
+}
+
+// Files the generator intends to write, keyed by path relative to the output directory
+type FilePlan = Map<string, Buffer>;
+
+// An example selected for generation, with the ABI its scripts are generated from
+interface SelectedExample {
+  manifest: ExampleManifest;
+  contract: ContractInterface;
+}
+
+// Template directories replaced by the example's own contract, tests and
+// extra files: base-template/scripts holds the scripts of its examples
+const TEMPLATE_SOURCE_DIRS = ["contracts", "test", "scripts"];
+
+// Template files that are never copied into generated projects. types/ holds
+// TypeChain output, which each project generates for its own contracts
+const TEMPLATE_EXCLUDES = ["node_modules", ".git", "fhevmTemp", "artifacts", "cache", "coverage", "types", "dist"];
+
+function planFile(plan: FilePlan, relativePath: string, content: string | Buffer): void {
+  plan.set(relativePath.split(path.sep).join("/"), Buffer.isBuffer(content) ? content : Buffer.from(content));
+}
+
+function planDir(src: string, plan: FilePlan, prefix: string = "", exclude: string[] = []): void {
+  const files = fs.readdirSync(src);
+  for (const file of files) {
+    // Skip excluded files and example manifests
+    if (exclude.includes(file) || file.endsWith(MANIFEST_SUFFIX)) continue;
+
+    const srcPath = path.join(src, file);
+    const relativePath = path.join(prefix, file);
+
+    if (fs.statSync(srcPath).isDirectory()) {
+      planDir(srcPath, plan, relativePath, exclude);
+    } else {
+      planFile(plan, relativePath, fs.readFileSync(srcPath));
+    }
+  }
+}
+
+/**
+ * Rewrite relative imports of a file moved from `sourcePath` to `destination`.
+ * Both are resolved against their project roots, so `../../types` in
+ * test/basic/FHECounter.ts becomes `../types` in test/FHECounter.ts.
+ */
+function relocateImports(source: string, sourcePath: string, destination: string, rootDir: string): string {
+  const sourceDir = path.dirname(path.resolve(rootDir, sourcePath));
+  const projectRoot = findProjectRoot(sourcePath, rootDir);
+  const destinationDir = path.dirname(destination);
+
+  return source.replace(
+    /(\bfrom\s+|\bimport\s+|\brequire\s*\(\s*)(["'])(\.\.?\/[^"']*)\2/g,
+    (match, prefix: string, quote: string, specifier: string) => {
+      const target = path.relative(projectRoot, path.resolve(sourceDir, specifier));
+      if (target.startsWith("..")) return match;
+
+      let relocated = path.relative(destinationDir, target).split(path.sep).join("/");
+      if (!relocated.startsWith(".")) relocated = `./${relocated}`;
+      return `${prefix}${quote}${relocated}${quote}`;
+    }
+  );
+}
+
+/**
+ * Plan the base template without its own contracts and tests.
+ */
+function planTemplate(plan: FilePlan, rootDir: string): void {
+  const baseTemplateDir = path.join(rootDir, "base-template");
+  if (!fs.existsSync(baseTemplateDir)) {
+    throw new CreateExampleError(`Base template not found at ${baseTemplateDir}`);
+  }
+
+  planDir(baseTemplateDir, plan, "", TEMPLATE_EXCLUDES);
+  for (const relativePath of [...plan.keys()]) {
+    if (TEMPLATE_SOURCE_DIRS.includes(relativePath.split("/")[0])) {
+      plan.delete(relativePath);
+    }
+  }
+}
+
+/**
+ * Plan the example's contract, tests and extra files. `copied` collects the
+ * destinations of every example in the project, so two examples can't claim
+ * the same file.
+ */
+function planExampleFiles(
+  manifest: ExampleManifest,
+  plan: FilePlan,
+  copied: Map<string, string>,
+  rootDir: string
+): void {
+  const sources: [string, string][] = [
+    [manifest.contract, exampleDestination(manifest.contract, "contracts")],
+    ...manifest.tests.map((test): [string, string] => [test, exampleDestination(test, "test")]),
+    ...manifest.extraFiles.map((extra): [string, string] => [extra.source, extra.destination]),
+  ];
+
+  for (const [sourcePath, destination] of sources) {
+    const owner = copied.get(destination);
+    if (owner) {
+      throw new InvalidManifestError(manifest.manifestPath, `${destination} is already copied from ${owner}`);
+    }
+    copied.set(destination, sourcePath);
+    const content = fs.readFileSync(path.join(rootDir, sourcePath), "utf-8");
+    planFile(plan, destination, relocateImports(content, sourcePath, destination, rootDir));
+  }
+}
+
+/**
+ * Merge the examples' dependencies into the template's. A package pinned to
+ * different versions by two sources can't be resolved automatically.
+ */
+function mergeDependencies(
+  template: Record<string, string> | undefined,
+  manifests: ExampleManifest[],
+  field: "dependencies" | "devDependencies"
+): Record<string, string> {
+  const merged: Record<string, string> = { ...template };
+  const origin: Record<string, string> = Object.fromEntries(Object.keys(merged).map((name) => [name, "base-template"]));
+
+  for (const manifest of manifests) {
+    for (const [name, version] of Object.entries(manifest[field])) {
+      if (merged[name] !== undefined && merged[name] !== version) {
+        throw new InvalidManifestError(
+          manifest.manifestPath,
+          `${field} conflict for ${name}: ${origin[name]} wants ${merged[name]}, this manifest wants ${version}`
+        );
+      }
+      merged[name] = version;
+      origin[name] ??= manifest.manifestPath;
+    }
+  }
+
+  return merged;
+}
+
+/**
+ * The template's package.json with the project's name, description, keywords
+ * and the examples' dependencies.
+ */
+function generatePackageJson(
+  manifests: ExampleManifest[],
+  project: { name: string; description: string },
+  templatePackageJson: Buffer
+): string {
+  const packageJson = JSON.parse(templatePackageJson.toString("utf-8"));
+  const keywords = [
+    "fhevm",
+    "zama",
+    "fhe",
+    "encryption",
+    "ethereum",
+    "hardhat",
+    ...manifests.flatMap((manifest) => [manifest.category, ...manifest.keywords]),
+  ];
+
+  packageJson.name = project.name;
+  packageJson.description = project.description;
+  packageJson.keywords = [...new Set(keywords.map((keyword) => keyword.toLowerCase()))];
+  packageJson.dependencies = mergeDependencies(packageJson.dependencies, manifests, "dependencies");
+  packageJson.devDependencies = mergeDependencies(packageJson.devDependencies, manifests, "devDependencies");
+
+  return `${JSON.stringify(packageJson, null, 2)}\n`;
+}
+
+/**
+ * Plan the client from frontend-template/ into frontend/. Only the list of
+ * contracts is generated: the client reads their ABIs from artifacts/ and
+ * addresses from hardhat-deploy's deployments/ at build time, so it follows
+ * recompiles and redeploys without being regenerated.
+ */
+function planFrontend(plan: FilePlan, contractNames: string[], projectName: string, rootDir: string): void {
+  const frontendTemplateDir = path.join(rootDir, "frontend-template");
+  if (!fs.existsSync(frontendTemplateDir)) {
+    throw new CreateExampleError(`Frontend template not found at ${frontendTemplateDir}`);
+  }
+
+  planDir(frontendTemplateDir, plan, "frontend", TEMPLATE_EXCLUDES);
+
+  const packageJson = JSON.parse(plan.get("frontend/package.json")!.toString("utf-8"));
+  packageJson.name = `${projectName}-frontend`;
+  planFile(plan, "frontend/package.json", `${JSON.stringify(packageJson, null, 2)}\n`);
+
+  planFile(
+    plan,
+    "frontend/src/contracts.js",
+    `// Contracts shown by the client, one panel per public function
+export const CONTRACTS = [${contractNames.map((name) => `'${name}'`).join(", ")}]
+`
+  );
+}
+
+function planEnvironmentFiles(plan: FilePlan): void {
+  planFile(
+    plan,
+    ".gitignore",
+    `node_modules/
+.env
+.env.local
+dist/
+artifacts/
+cache/
+coverage/
+types/
+fhevmTemp/
+.DS_Store
+*.log
+`
+  );
+
+  planFile(
+    plan,
+    ".env.example",
+    `SEPOLIA_RPC_URL=https://sepolia.infura.io/v3/YOUR_KEY
+PRIVATE_KEY=your_private_key
+ETHERSCAN_API_KEY=your_api_key
+REPORT_GAS=false
+`
+  );
+}
+
+function selectExample(exampleName: string, registry: ManifestRegistry, rootDir: string): SelectedExample {
+  const manifest = registry.examples[exampleName];
+  if (!manifest) {
+    throw new UnknownExampleError(exampleName, Object.keys(registry.examples));
+  }
+
+  const contract = loadContractInterface(manifest.contract, rootDir);
+  validateDeployment(manifest, contract);
+
+  return { manifest, contract };
+}
+
+function planExample({ manifest, contract }: SelectedExample, rootDir: string, withFrontend: boolean): FilePlan {
+  const plan: FilePlan = new Map();
+
+  planTemplate(plan, rootDir);
+  planExampleFiles(manifest, plan, new Map(), rootDir);
+  planFile(plan, "package.json", generatePackageJson([manifest], manifest, plan.get("package.json")!));
+
+  // Deployment scripts generated from the contract's ABI
+  const deployPaths = deployScriptPaths(manifest, false);
+  planFile(plan, deployPaths.script, generateDeploymentScript(manifest, contract));
+  planFile(plan, deployPaths.hardhatDeploy, generateHardhatDeployScript(manifest, contract));
+
+  planEnvironmentFiles(plan);
+  if (withFrontend) {
+    planFrontend(plan, [contract.contractName], manifest.name, rootDir);
+  }
+
+  // The README's project tree lists every planned file, so it is generated last
+  const projectFiles = [...plan.keys(), "README.md"];
+  planFile(plan, "README.md", generateREADME(loadExampleSources(manifest, contract, rootDir), projectFiles));
+
+  return plan;
+}
+
+/**
+ * One Hardhat project holding several examples: every contract and test side by
+ * side, a shared config and package.json, a docs page per example and an index
+ * README linking them.
+ */
+function planWorkspace(
+  title: string,
+  project: { name: string; description: string },
+  examples: SelectedExample[],
+  rootDir: string,
+  withFrontend: boolean
+): FilePlan {
+  // TypeChain names its bindings after the contract, so contract names must be unique
+  const contractNames = new Map<string, string>();
+  for (const { manifest, contract } of examples) {
+    const other = contractNames.get(contract.contractName);
+    if (other) {
+      throw new InvalidManifestError(
+        manifest.manifestPath,
+        `${manifest.name} and ${other} both define ${contract.contractName}; they can't share a workspace`
+      );
+    }
+    contractNames.set(contract.contractName, manifest.name);
+  }
+
+  const plan: FilePlan = new Map();
+  planTemplate(plan, rootDir);
+
+  const copied = new Map<string, string>();
+  const manifests = examples.map((example) => example.manifest);
+  for (const { manifest, contract } of examples) {
+    planExampleFiles(manifest, plan, copied, rootDir);
+
+    const deployPaths = deployScriptPaths(manifest, true);
+    planFile(plan, deployPaths.script, generateDeploymentScript(manifest, contract));
+    planFile(plan, deployPaths.hardhatDeploy, generateHardhatDeployScript(manifest, contract));
+  }
+  planFile(plan, "package.json", generatePackageJson(manifests, project, plan.get("package.json")!));
+
+  planEnvironmentFiles(plan);
+  if (withFrontend) {
+    planFrontend(plan, [...contractNames.keys()], project.name, rootDir);
+  }
+
+  const sources = examples.map(({ manifest, contract }) => loadExampleSources(manifest, contract, rootDir));
+  for (const example of sources) {
+    planFile(
+      plan,
+      `docs/${example.manifest.name}.md`,
+      generateExampleDoc(example, deployScriptPaths(example.manifest, true))
+    );
+  }
+
+  const projectFiles = [...plan.keys(), "README.md"];
+  planFile(plan, "README.md", generateWorkspaceREADME(title, sources, projectFiles));
+
+  return plan;
+}
+
+function classifyPlan(plan: FilePlan, outputDir: string, fileSystem: FileSystem): PlannedFile[] {
+  return [...plan.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([relativePath, content]) => {
+      const target = path.join(outputDir, relativePath);
+      if (!fileSystem.existsSync(target)) {
+        return { path: relativePath, content, status: "create" as const };
+      }
+      const existing = fileSystem.readFileSync(target);
+      return { path: relativePath, content, status: existing.equals(content) ? ("unchanged" as const) : ("conflict" as const) };
+    });
+}
+
+function renderDiffs(files: PlannedFile[], outputDir: string, fileSystem: FileSystem): string {
+  return files
+    .filter((file) => file.status !== "unchanged")
+    .map((file) => {
+      const before = file.status === "create" ? "" : fileSystem.readFileSync(path.join(outputDir, file.path)).toString("utf-8");
+      const fromFile = file.status === "create" ? "/dev/null" : `a/${file.path}`;
+      return unifiedDiff(before, file.content.toString("utf-8"), fromFile, `b/${file.path}`);
+    })
+    .join("");
+}
+
+/**
+ * Files already in the output directory's contracts/ and test/ that are not part
+ * of the example, e.g. left over from the template by an earlier run.
+ */
+function findStrayFiles(plan: FilePlan, outputDir: string, fileSystem: FileSystem): string[] {
+  const stray: string[] = [];
+  const walk = (dir: string) => {
+    if (!fileSystem.existsSync(path.join(outputDir, dir))) return;
+    for (const name of fileSystem.readdirSync(path.join(outputDir, dir))) {
+      const relativePath = `${dir}/${name}`;
+      if (fileSystem.statSync(path.join(outputDir, relativePath)).isDirectory()) {
+        walk(relativePath);
+      } else if (!plan.has(relativePath)) {
+        stray.push(relativePath);
+      }
+    }
+  };
+  TEMPLATE_SOURCE_DIRS.forEach(walk);
+  return stray;
+}
+
+/**
+ * Resolve the options to the examples to generate and, for workspaces, the
+ * project's title and package identity.
+ */
+function resolveSelection(
+  options: CreateExampleOptions,
+  registry: ManifestRegistry
+): { names: string[]; workspace?: { slug: string; title: string; name: string; description: string } } {
+  const selectors = [options.example, options.category, options.examples].filter((value) => value !== undefined);
+  if (selectors.length !== 1) {
+    throw new InvalidOptionsError("Select exactly one of: an example, a category, or a list of examples");
+  }
+
+  if (options.example !== undefined) {
+    return { names: [options.example] };
+  }
+
+  let names: string[];
+  if (options.category !== undefined) {
+    names = Object.values(registry.examples)
+      .filter((manifest) => manifest.category === options.category)
+      .map((manifest) => manifest.name);
+    if (names.length === 0) {
+      const categories = [...new Set(Object.values(registry.examples).map((manifest) => manifest.category))];
+      throw new InvalidOptionsError(
+        `No examples in category "${options.category}". Available categories: ${categories.join(", ")}`
+      );
+    }
+  } else {
+    names = [...new Set(options.examples)];
+    if (names.length === 0) {
+      throw new InvalidOptionsError("The list of examples is empty");
+    }
+  }
+
+  const title = options.category ? `FHEVM Examples: ${options.category}` : "FHEVM Examples";
+  return {
+    names,
+    workspace: {
+      slug: options.category ?? "workspace",
+      title,
+      name: options.category ? `fhevm-examples-${options.category}` : "fhevm-examples",
+      description: `${title} - ${names.join(", ")}`,
+    },
+  };
+}
+
+/**
+ * Generate a standalone project for one example, or a workspace holding
+ * several, into `options.outputDir`.
+ */
+export function createExample(options: CreateExampleOptions, fileSystem: FileSystem = fs): CreateExampleResult {
+  if (options.policy !== undefined && !["force", "skip-existing"].includes(options.policy)) {
+    throw new InvalidOptionsError(`Unknown conflict policy: ${options.policy}`);
+  }
+
+  const rootDir = path.resolve(options.rootDir ?? process.cwd());
+  const registry = options.registry ?? discoverManifests(rootDir);
+  const { names, workspace } = resolveSelection(options, registry);
+
+  const outputDir = path.resolve(rootDir, options.outputDir ?? path.join("examples", workspace?.slug ?? names[0]));
+  const selected = names.map((name) => selectExample(name, registry, rootDir));
+
+  const plan = workspace
+    ? planWorkspace(workspace.title, workspace, selected, rootDir, Boolean(options.withFrontend))
+    : planExample(selected[0], rootDir, Boolean(options.withFrontend));
+
+  const files = classifyPlan(plan, outputDir, fileSystem);
+  const preview = Boolean(options.dryRun || options.diff);
+
+  const warnings = findStrayFiles(plan, outputDir, fileSystem).map(
+    (file) => `${file} is not part of the generated project (left over from the template?)`
+  );
+
+  const result: CreateExampleResult = {
+    outputDir,
+    examples: selected.map(({ manifest, contract }) => ({
+      name: manifest.name,
+      contractName: contract.contractName,
+      abiSource: `${contract.origin} ${contract.originPath}`,
+    })),
+    files,
+    preview,
+    diff: options.diff ? renderDiffs(files, outputDir, fileSystem) : "",
+    written: [],
+    kept: [],
+    warnings,
+    nextSteps: [],
+  };
+
+  const conflicts = files.filter((file) => file.status === "conflict");
+  if (preview) {
+    return result;
+  }
+  if (conflicts.length > 0 && !options.policy) {
+    throw new FileConflictError(outputDir, conflicts.map((file) => file.path));
+  }
+
+  for (const file of files) {
+    if (file.status === "unchanged") continue;
+    if (file.status === "conflict" && options.policy === "skip-existing") {
+      warnings.push(`Kept existing ${file.path}`);
+      result.kept.push(file.path);
+      continue;
+    }
+
+    const target = path.join(outputDir, file.path);
+    try {
+      fileSystem.mkdirSync(path.dirname(target), { recursive: true });
+      fileSystem.writeFileSync(target, file.content);
+    } catch (err) {
+      throw new CreateExampleError(`Failed to write ${target}: ${(err as Error).message}`);
+    }
+    result.written.push(file.path);
+  }
+
+  const relativeOutputDir = path.relative(process.cwd(), outputDir);
+  result.nextSteps = [
+    `cd ${relativeOutputDir.startsWith("..") ? outputDir : relativeOutputDir || "."}`,
+    "npm install",
+    "npm run compile",
+    "npm test",
+  ];
+  if (options.withFrontend) {
+    result.nextSteps.push(
+      "npm run chain (in a second terminal), then npm run deploy:localhost",
+      "cd frontend && npm install && npm run dev"
+    );
+  }
+
+  return result;
+}
@@ -0,0 +1,145 @@
+/**
+ * Deploy scripts for generated projects
+ *
+ * Two scripts are generated per example from its manifest and contract ABI: a
+ * plain `hardhat run` script and a hardhat-deploy function. Both deploy with
+ * the manifest's constructor args and then make its setup calls.
+ */
+
+import { AbiEntry, ContractInterface, findConstructor, findFunctions } from "./contract-interface";
+import { InvalidManifestError } from "./errors";
+import { ExampleManifest } from "./manifest";
+
+// Manifest placeholder for the deploying account
+export const DEPLOYER_PLACEHOLDER = "$deployer";
+
+/**
+ * Render a manifest argument as a TypeScript expression. `deployer` is the
+ * expression the generated script uses for the deploying account's address.
+ */
+function renderArg(value: unknown, deployer: string): string {
+  if (value === DEPLOYER_PLACEHOLDER) return deployer;
+  if (Array.isArray(value)) {
+    return `[${value.map((item) => renderArg(item, deployer)).join(", ")}]`;
+  }
+  return JSON.stringify(value);
+}
+
+function renderArgs(values: unknown[], deployer: string): string {
+  return values.map((value) => renderArg(value, deployer)).join(", ");
+}
+
+function signatureOf(entry: AbiEntry): string {
+  const inputs = (entry.inputs ?? []).map((input) => `${input.type} ${input.name}`.trim());
+  return `${entry.name ?? entry.type}(${inputs.join(", ")})`;
+}
+
+/**
+ * Check the manifest's constructor args and setup calls against the contract ABI.
+ */
+export function validateDeployment(manifest: ExampleManifest, contract: ContractInterface): void {
+  const constructorInputs = findConstructor(contract.abi)?.inputs ?? [];
+  if (constructorInputs.length !== manifest.constructorArgs.length) {
+    throw new InvalidManifestError(
+      manifest.manifestPath,
+      `${contract.contractName} constructor takes ${constructorInputs.length} ` +
+        `argument(s) but "constructorArgs" has ${manifest.constructorArgs.length}`
+    );
+  }
+
+  for (const call of manifest.setup) {
+    const candidates = findFunctions(contract.abi, call.method);
+    if (candidates.length === 0) {
+      throw new InvalidManifestError(
+        manifest.manifestPath,
+        `setup method "${call.method}" not found on ${contract.contractName}`
+      );
+    }
+    if (!candidates.some((fn) => (fn.inputs ?? []).length === call.args.length)) {
+      throw new InvalidManifestError(
+        manifest.manifestPath,
+        `setup call ${call.method} has ${call.args.length} argument(s), expected ` +
+          candidates.map(signatureOf).join(" or ")
+      );
+    }
+  }
+}
+
+export function generateDeploymentScript(manifest: ExampleManifest, contract: ContractInterface): string {
+  const name = contract.contractName;
+  const constructorArgs = renderArgs(manifest.constructorArgs, "deployer.address");
+
+  let setupCalls = "";
+  if (manifest.setup.length > 0) {
+    setupCalls += `\n  // Post-deployment setup\n`;
+    for (const call of manifest.setup) {
+      setupCalls += `  await (await contract.${call.method}(${renderArgs(call.args, "deployer.address")})).wait();\n`;
+      setupCalls += `  console.log(${JSON.stringify(call.description ?? `${call.method} executed`)});\n`;
+    }
+  }
+
+  const deployScript = `import { ethers } from "hardhat";
+
+async function main() {
+  const [deployer] = await ethers.getSigners();
+  console.log("Deploying ${name} contract with account:", deployer.address);
+
+  const factory = await ethers.getContractFactory("${name}");
+  const contract = await factory.deploy(${constructorArgs});
+  await contract.waitForDeployment();
+
+  const address = await contract.getAddress();
+  console.log("${name} deployed to:", address);
+${setupCalls}
+  // Display deployment info
+  console.log("\\nDeployment Summary:");
+  console.log("====================");
+  console.log("Contract:", "${name}");
+  console.log("Contract Address:", address);
+  console.log("Deployer:", deployer.address);
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error(error);
+    process.exit(1);
+  });
+`;
+
+  return deployScript;
+}
+
+export function generateHardhatDeployScript(manifest: ExampleManifest, contract: ContractInterface): string {
+  const name = contract.contractName;
+
+  let setupCalls = "";
+  for (const call of manifest.setup) {
+    const args = call.args.length > 0 ? `, ${renderArgs(call.args, "deployer")}` : "";
+    setupCalls += `\n  await execute("${name}", { from: deployer, log: true }, "${call.method}"${args});\n`;
+    setupCalls += `  log(${JSON.stringify(call.description ?? `${call.method} executed`)});\n`;
+  }
+
+  const deployScript = `import { DeployFunction } from "hardhat-deploy/types";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+
+const func: DeployFunction = async function (hre: HardhatRuntimeEnvironment) {
+  const [deployer] = await hre.getUnnamedAccounts();
+  const { ${manifest.setup.length > 0 ? "deploy, execute, log" : "deploy, log"} } = hre.deployments;
+
+  const deployed = await deploy("${name}", {
+    from: deployer,
+    args: [${renderArgs(manifest.constructorArgs, "deployer")}],
+    log: true,
+  });
+
+  log(\`${name} deployed to: \${deployed.address}\`);
+${setupCalls}};
+
+export default func;
+func.id = "deploy_${name.toLowerCase()}";
+func.tags = ["${name}"];
+`;
+
+  return deployScript;
+}
@@ -0,0 +1,126 @@
+/**
+ * Line-based unified diff, for previewing generated files against disk
+ */
+
+type Operation = { kind: " " | "-" | "+"; line: string };
+
+function splitLines(text: string): string[] {
+  if (text === "") return [];
+  const lines = text.replace(/\r\n/g, "\n").split("\n");
+  // A trailing newline doesn't start another line
+  if (lines[lines.length - 1] === "") lines.pop();
+  return lines;
+}
+
+/**
+ * Edit script between two line arrays using a longest-common-subsequence table.
+ * Common prefix and suffix are stripped first, which keeps the table small for
+ * the typical "a few lines changed" case.
+ */
+function diffLines(before: string[], after: string[]): Operation[] {
+  let prefix = 0;
+  while (prefix < before.length && prefix < after.length && before[prefix] === after[prefix]) {
+    prefix++;
+  }
+
+  let suffix = 0;
+  while (
+    suffix < before.length - prefix &&
+    suffix < after.length - prefix &&
+    before[before.length - 1 - suffix] === after[after.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const a = before.slice(prefix, before.length - suffix);
+  const b = after.slice(prefix, after.length - suffix);
+
+  // lcs[i * (b.length + 1) + j] = LCS length of a[i..] and b[j..]
+  const width = b.length + 1;
+  const lcs = new Uint32Array((a.length + 1) * width);
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i * width + j] =
+        a[i] === b[j] ? lcs[(i + 1) * width + j + 1] + 1 : Math.max(lcs[(i + 1) * width + j], lcs[i * width + j + 1]);
+    }
+  }
+
+  const operations: Operation[] = before.slice(0, prefix).map((line) => ({ kind: " ", line }));
+
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      operations.push({ kind: " ", line: a[i] });
+      i++;
+      j++;
+    } else if (i < a.length && (j === b.length || lcs[(i + 1) * width + j] >= lcs[i * width + j + 1])) {
+      // Removals first, like diff(1)
+      operations.push({ kind: "-", line: a[i] });
+      i++;
+    } else {
+      operations.push({ kind: "+", line: b[j] });
+      j++;
+    }
+  }
+
+  for (const line of before.slice(before.length - suffix)) {
+    operations.push({ kind: " ", line });
+  }
+
+  return operations;
+}
+
+/**
+ * Unified diff of two texts; returns an empty string when they are equal.
+ */
+export function unifiedDiff(before: string, after: string, fromFile: string, toFile: string, context = 3): string {
+  const operations = diffLines(splitLines(before), splitLines(after));
+  if (operations.every((operation) => operation.kind === " ")) return "";
+
+  let output = `--- ${fromFile}\n+++ ${toFile}\n`;
+
+  // Line numbers (1-based) in the old and new text at each operation
+  const positions: { oldLine: number; newLine: number }[] = [];
+  let oldLine = 1;
+  let newLine = 1;
+  for (const operation of operations) {
+    positions.push({ oldLine, newLine });
+    if (operation.kind !== "+") oldLine++;
+    if (operation.kind !== "-") newLine++;
+  }
+
+  let index = 0;
+  while (index < operations.length) {
+    // Find the next change
+    while (index < operations.length && operations[index].kind === " ") index++;
+    if (index === operations.length) break;
+
+    const start = Math.max(0, index - context);
+    let end = index;
+
+    // Extend the hunk while changes are within 2 * context lines of each other
+    let lastChange = index;
+    while (end < operations.length) {
+      if (operations[end].kind !== " ") lastChange = end;
+      if (end - lastChange > context * 2) break;
+      end++;
+    }
+    end = Math.min(operations.length, lastChange + context + 1);
+
+    const hunk = operations.slice(start, end);
+    const oldCount = hunk.filter((operation) => operation.kind !== "+").length;
+    const newCount = hunk.filter((operation) => operation.kind !== "-").length;
+    const oldStart = oldCount === 0 ? positions[start].oldLine - 1 : positions[start].oldLine;
+    const newStart = newCount === 0 ? positions[start].newLine - 1 : positions[start].newLine;
+
+    output += `@@ -${oldStart},${oldCount} +${newStart},${newCount} @@\n`;
+    for (const operation of hunk) {
+      output += `${operation.kind}${operation.line}\n`;
+    }
+
+    index = end;
+  }
+
+  return output;
+}
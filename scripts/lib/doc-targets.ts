@@ -0,0 +1,181 @@
+/**
+ * Documentation output targets - one renderer per docs site flavour
+ *
+ * generate-docs builds every page as Markdown once; a DocTarget turns the
+ * pages into the files of its site, relative to its output directory:
+ *
+ *   gitbook      <name>.md and SUMMARY.md (the default, written to examples/)
+ *   docusaurus   <name>.md with front matter, and sidebars.js
+ *   html         <name>.html and index.html, self-contained with inline CSS
+ *
+ * Pages come in learning-path order, which every target keeps.
+ */
+
+import { escapeHtml, markdownToHtml } from "./markdown-html";
+
+export interface DocPage {
+  // Example name, used as the file name and doc id
+  name: string;
+  title: string;
+  description: string;
+  // Section heading, e.g. "Basic Examples"
+  category: string;
+  markdown: string;
+}
+
+export interface DocTarget {
+  name: string;
+  description: string;
+  // Where the files go unless --out is given, relative to the repository root
+  defaultOutDir: string;
+  /**
+   * Files for the given pages, by path relative to the output directory.
+   * `withIndex` adds the target's index (SUMMARY.md, sidebars.js, index.html).
+   */
+  render(pages: DocPage[], withIndex: boolean): Map<string, string>;
+}
+
+function groupByCategory(pages: DocPage[]): Map<string, DocPage[]> {
+  const categories = new Map<string, DocPage[]>();
+  for (const page of pages) {
+    categories.set(page.category, [...(categories.get(page.category) ?? []), page]);
+  }
+  return categories;
+}
+
+// Examples grouped by category; categories and pages keep the learning-path order
+function renderSummary(pages: DocPage[]): string {
+  let summary = `# FHEVM Examples Documentation\n\n`;
+  summary += `## Introduction\n\n`;
+  summary += `This documentation covers FHEVM examples demonstrating privacy-preserving smart contracts and governance.\n\n`;
+  summary += `## Table of Contents\n\n`;
+
+  for (const [category, categoryPages] of groupByCategory(pages)) {
+    summary += `### ${category}\n\n`;
+    summary += categoryPages.map((page) => `- [${page.title}](${page.name}.md) - ${page.description}`).join("\n") + "\n\n";
+  }
+
+  summary += `## Learning Path\n\n`;
+  pages.forEach((page, index) => {
+    summary += `${index + 1}. [${page.title}](${page.name}.md)\n`;
+  });
+
+  summary += `\n## Quick Links\n\n`;
+  summary += `- [FHEVM Documentation](https://docs.zama.ai/fhevm)\n`;
+  summary += `- [GitHub Repository](https://github.com/zama-ai/fhevm-secure-voting)\n`;
+  summary += `- [Zama Community](https://www.zama.ai/community)\n`;
+
+  return summary;
+}
+
+const gitbook: DocTarget = {
+  name: "gitbook",
+  description: "GitBook Markdown pages and SUMMARY.md",
+  defaultOutDir: "examples",
+  render(pages, withIndex) {
+    const files = new Map(pages.map((page) => [`${page.name}.md`, page.markdown]));
+    if (withIndex) files.set("SUMMARY.md", renderSummary(pages));
+    return files;
+  },
+};
+
+// YAML double-quoted scalar
+function yamlString(text: string): string {
+  return JSON.stringify(text);
+}
+
+const docusaurus: DocTarget = {
+  name: "docusaurus",
+  description: "Docusaurus docs with front matter, and sidebars.js",
+  defaultOutDir: "build/docusaurus",
+  render(pages, withIndex) {
+    const files = new Map<string, string>();
+
+    pages.forEach((page, index) => {
+      const frontMatter = [
+        "---",
+        `id: ${page.name}`,
+        `title: ${yamlString(page.title)}`,
+        `description: ${yamlString(page.description)}`,
+        `sidebar_label: ${yamlString(page.title)}`,
+        `sidebar_position: ${index + 1}`,
+        "---",
+      ].join("\n");
+      // The title comes from the front matter
+      const body = page.markdown.replace(/^# .*\n+/, "");
+      files.set(`${page.name}.md`, `${frontMatter}\n\n${body}`);
+    });
+
+    if (withIndex) {
+      const categories = [...groupByCategory(pages)].map(([label, categoryPages]) => ({
+        type: "category",
+        label,
+        items: categoryPages.map((page) => page.name),
+      }));
+      const sidebars = JSON.stringify({ examples: categories }, null, 2);
+      files.set(
+        "sidebars.js",
+        `// Generated by scripts/generate-docs.ts --format docusaurus\n\nmodule.exports = ${sidebars};\n`
+      );
+    }
+
+    return files;
+  },
+};
+
+const STYLE = `
+body { margin: 0; font: 16px/1.6 -apple-system, BlinkMacSystemFont, "Segoe UI", Helvetica, Arial, sans-serif; color: #1f2328; }
+nav { padding: 12px 24px; border-bottom: 1px solid #d0d7de; background: #f6f8fa; }
+main { max-width: 960px; margin: 0 auto; padding: 24px; }
+h1, h2 { border-bottom: 1px solid #d0d7de; padding-bottom: 0.3em; }
+a { color: #0969da; text-decoration: none; }
+a:hover { text-decoration: underline; }
+code { font: 85% ui-monospace, SFMono-Regular, Menlo, monospace; background: #eff1f3; padding: 0.2em 0.4em; border-radius: 6px; }
+pre { background: #f6f8fa; padding: 16px; overflow: auto; border-radius: 6px; }
+pre code { background: none; padding: 0; }
+table { border-collapse: collapse; margin: 16px 0; display: block; overflow: auto; }
+th, td { border: 1px solid #d0d7de; padding: 6px 13px; }
+blockquote { margin: 0; padding: 0 1em; color: #59636e; border-left: 4px solid #d0d7de; }
+details { margin: 8px 0 16px; }
+summary { cursor: pointer; color: #59636e; }
+`;
+
+function htmlDocument(title: string, content: string, nav: string): string {
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(title)}</title>
+<style>${STYLE}</style>
+</head>
+<body>
+<nav>${nav}</nav>
+<main>
+${content}</main>
+</body>
+</html>
+`;
+}
+
+const html: DocTarget = {
+  name: "html",
+  description: "Static HTML bundle for offline reading",
+  defaultOutDir: "build/html",
+  render(pages, withIndex) {
+    const files = new Map<string, string>();
+    const nav = withIndex ? `<a href="index.html">All examples</a>` : "FHEVM Examples";
+
+    for (const page of pages) {
+      files.set(`${page.name}.html`, htmlDocument(page.title, markdownToHtml(page.markdown), nav));
+    }
+
+    if (withIndex) {
+      files.set("index.html", htmlDocument("FHEVM Examples", markdownToHtml(renderSummary(pages)), "FHEVM Examples"));
+    }
+
+    return files;
+  },
+};
+
+export const DOC_TARGETS: Record<string, DocTarget> = { gitbook, docusaurus, html };
@@ -0,0 +1,539 @@
+/**
+ * doctor - offline integrity checks for a generated (or hand-written) project
+ *
+ * Catches the mistakes that only show up after `npm install` otherwise: test
+ * imports that point nowhere, getContractFactory names without a contract,
+ * hardhat config paths and plugins that are missing, package.json scripts
+ * referring to files that don't exist, and README signatures the contracts
+ * don't have. Nothing is compiled or installed; every check reads files only.
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import { builtinModules } from "module";
+import { loadSourceAbi, SourceAbi, stripComments } from "./contract-interface";
+import { FileSystem } from "./create-example";
+import { blankComments } from "./test-suite";
+
+export type CheckStatus = "pass" | "fail" | "warn";
+
+export interface DoctorCheck {
+  // Group the check belongs to, e.g. "Test imports"
+  category: string;
+  status: CheckStatus;
+  message: string;
+  // File the check is about, relative to the project directory
+  file?: string;
+}
+
+export interface DoctorReport {
+  projectDir: string;
+  checks: DoctorCheck[];
+  // True when no check failed (warnings don't count)
+  passed: boolean;
+}
+
+// Hardhat's defaults for the paths the config may override
+const DEFAULT_PATHS: Record<string, string> = { sources: "contracts", tests: "test" };
+const DEFAULT_TYPECHAIN_DIR = "typechain-types";
+
+// Config paths that `npx hardhat compile` creates, so they may be missing before the first build
+const BUILD_OUTPUT_PATHS = ["artifacts", "cache"];
+
+// Extensions tried when resolving an import without one, in Node's order
+const IMPORT_EXTENSIONS = ["", ".ts", ".js", ".d.ts", ".json", "/index.ts", "/index.js", "/index.d.ts"];
+
+// Commands whose file arguments are outputs, so they needn't exist
+const OUTPUT_COMMANDS = ["rimraf"];
+
+interface ProjectConfig {
+  sources: string;
+  tests: string;
+  typechainDir: string;
+  // Raw "key: path" pairs from the config's paths block
+  paths: Record<string, string>;
+  plugins: string[];
+}
+
+class Project {
+  constructor(
+    readonly dir: string,
+    private readonly fileSystem: FileSystem
+  ) {}
+
+  exists(relativePath: string): boolean {
+    return this.fileSystem.existsSync(path.join(this.dir, relativePath));
+  }
+
+  read(relativePath: string): string {
+    return this.fileSystem.readFileSync(path.join(this.dir, relativePath)).toString("utf-8");
+  }
+
+  /**
+   * ABI of a contract declared in a project file, with the members of its
+   * parents and the events and errors of the libraries it uses, as the README lists them.
+   */
+  sourceAbi(relativePath: string, contractName: string): SourceAbi {
+    return loadSourceAbi(relativePath, this.dir, { files: this.fileSystem, contractName });
+  }
+
+  isDirectory(relativePath: string): boolean {
+    return this.exists(relativePath) && this.fileSystem.statSync(path.join(this.dir, relativePath)).isDirectory();
+  }
+
+  /**
+   * Files under a directory (relative to the project) with one of the extensions.
+   */
+  files(dir: string, extensions: string[]): string[] {
+    if (!this.isDirectory(dir)) return [];
+
+    const found: string[] = [];
+    for (const name of this.fileSystem.readdirSync(path.join(this.dir, dir)).sort()) {
+      if (name === "node_modules") continue;
+      const relativePath = path.posix.join(dir, name);
+      if (this.isDirectory(relativePath)) {
+        found.push(...this.files(relativePath, extensions));
+      } else if (extensions.some((extension) => name.endsWith(extension))) {
+        found.push(relativePath);
+      }
+    }
+    return found;
+  }
+}
+
+function normalize(relativePath: string): string {
+  return path.posix.normalize(relativePath.replace(/\\/g, "/")).replace(/\/$/, "");
+}
+
+/**
+ * Read the paths, typechain output directory and plugins from hardhat.config.ts.
+ */
+function readHardhatConfig(project: Project, configFile: string): ProjectConfig {
+  const source = blankComments(project.read(configFile));
+
+  const paths: Record<string, string> = {};
+  const pathsBlock = /\bpaths\s*:\s*{([^}]*)}/.exec(source)?.[1] ?? "";
+  for (const [, key, value] of pathsBlock.matchAll(/(\w+)\s*:\s*["'`]([^"'`]+)["'`]/g)) {
+    paths[key] = normalize(value);
+  }
+
+  const typechainBlock = /\btypechain\s*:\s*{([^}]*)}/.exec(source)?.[1] ?? "";
+  const typechainDir = /\boutDir\s*:\s*["'`]([^"'`]+)["'`]/.exec(typechainBlock)?.[1];
+
+  const plugins = [...source.matchAll(/^\s*import\s+(?:[^"']*\s+from\s+)?["']([^"'.][^"']*)["']/gm)].map(
+    ([, specifier]) => specifier
+  );
+
+  return {
+    sources: paths.sources ?? DEFAULT_PATHS.sources,
+    tests: paths.tests ?? DEFAULT_PATHS.tests,
+    typechainDir: normalize(typechainDir ?? DEFAULT_TYPECHAIN_DIR),
+    paths,
+    plugins,
+  };
+}
+
+/**
+ * Package name of a bare import specifier: "@scope/pkg/sub" -> "@scope/pkg".
+ */
+function packageName(specifier: string): string {
+  const parts = specifier.split("/");
+  return specifier.startsWith("@") ? parts.slice(0, 2).join("/") : parts[0];
+}
+
+function isBuiltin(specifier: string): boolean {
+  const name = specifier.replace(/^node:/, "");
+  return builtinModules.includes(name) || builtinModules.includes(name.split("/")[0]);
+}
+
+/**
+ * Names of the contracts and libraries declared under the sources directory.
+ */
+function findContracts(project: Project, sourcesDir: string): Map<string, string> {
+  const contracts = new Map<string, string>();
+  for (const file of project.files(sourcesDir, [".sol"])) {
+    const source = stripComments(project.read(file));
+    for (const [, name] of source.matchAll(/^\s*(?:abstract\s+)?(?:contract|library)\s+(\w+)/gm)) {
+      contracts.set(name, file);
+    }
+  }
+  return contracts;
+}
+
+function checkHardhatConfig(
+  project: Project,
+  configFile: string,
+  config: ProjectConfig,
+  dependencies: Set<string>
+): DoctorCheck[] {
+  const category = "Hardhat config";
+  const checks: DoctorCheck[] = [];
+
+  for (const [key, dir] of Object.entries({ sources: config.sources, tests: config.tests })) {
+    checks.push(
+      project.isDirectory(dir)
+        ? { category, status: "pass", message: `paths.${key} (${dir}) exists`, file: configFile }
+        : { category, status: "fail", message: `paths.${key} points at ${dir}, which doesn't exist`, file: configFile }
+    );
+  }
+
+  for (const [key, dir] of Object.entries(config.paths)) {
+    if (key === "sources" || key === "tests") continue;
+    if (project.exists(dir)) {
+      checks.push({ category, status: "pass", message: `paths.${key} (${dir}) exists`, file: configFile });
+    } else if (BUILD_OUTPUT_PATHS.includes(key)) {
+      checks.push({
+        category,
+        status: "warn",
+        message: `paths.${key} (${dir}) doesn't exist yet; run \`npx hardhat compile\``,
+        file: configFile,
+      });
+    } else {
+      checks.push({
+        category,
+        status: "fail",
+        message: `paths.${key} points at ${dir}, which doesn't exist`,
+        file: configFile,
+      });
+    }
+  }
+
+  if (config.plugins.includes("@typechain/hardhat")) {
+    checks.push(
+      project.isDirectory(config.typechainDir)
+        ? { category, status: "pass", message: `typechain output (${config.typechainDir}) exists`, file: configFile }
+        : {
+            category,
+            status: "warn",
+            message: `typechain output (${config.typechainDir}) doesn't exist yet; run \`npx hardhat compile\``,
+            file: configFile,
+          }
+    );
+  }
+
+  for (const plugin of config.plugins) {
+    if (isBuiltin(plugin)) continue;
+    const name = packageName(plugin);
+    checks.push(
+      dependencies.has(name)
+        ? { category, status: "pass", message: `${plugin} is a declared dependency`, file: configFile }
+        : {
+            category,
+            status: "fail",
+            message: `imports ${plugin}, but ${name} is not in package.json`,
+            file: configFile,
+          }
+    );
+  }
+
+  return checks;
+}
+
+/**
+ * The file an extensionless relative import resolves to, if any.
+ */
+function resolveImport(project: Project, target: string): string | undefined {
+  return IMPORT_EXTENSIONS.map((extension) => target + extension).find(
+    (candidate) => project.exists(candidate) && !project.isDirectory(candidate)
+  );
+}
+
+function checkTestImports(
+  project: Project,
+  config: ProjectConfig,
+  contracts: Map<string, string>,
+  dependencies: Set<string>
+): DoctorCheck[] {
+  const category = "Test imports";
+  const checks: DoctorCheck[] = [];
+  const importPattern = /\bimport\s+(?:([\w*\s{},]*?)\s+from\s+)?["']([^"']+)["']|\brequire\s*\(\s*["']([^"']+)["']\s*\)/g;
+
+  for (const file of project.files(config.tests, [".ts", ".js"])) {
+    const source = blankComments(project.read(file));
+
+    for (const match of source.matchAll(importPattern)) {
+      const clause = match[1] ?? "";
+      const specifier = match[2] ?? match[3];
+
+      if (!specifier.startsWith(".")) {
+        if (isBuiltin(specifier)) continue;
+        const name = packageName(specifier);
+        checks.push(
+          dependencies.has(name)
+            ? { category, status: "pass", message: `${specifier} is a declared dependency`, file }
+            : { category, status: "fail", message: `imports ${specifier}, but ${name} is not in package.json`, file }
+        );
+        continue;
+      }
+
+      const target = normalize(path.posix.join(path.posix.dirname(file), specifier));
+
+      // TypeChain bindings only exist after compiling: the names must match contracts,
+      // and bindings that are missing or stale only need a build
+      if (target === config.typechainDir || target.startsWith(`${config.typechainDir}/`)) {
+        const names = [...clause.matchAll(/\b(\w+)\b/g)].map(([name]) => name).filter((name) => name !== "type");
+        const unknown = names.filter((name) => !contracts.has(name.replace(/__factory$/, "")));
+        if (unknown.length > 0) {
+          checks.push({
+            category,
+            status: "fail",
+            message: `imports ${unknown.join(", ")} from ${specifier}, but no contract by that name exists in ${config.sources}/`,
+            file,
+          });
+          continue;
+        }
+
+        const bindings = resolveImport(project, target);
+        if (!bindings) {
+          checks.push({
+            category,
+            status: "warn",
+            message: `${specifier} (TypeChain output) hasn't been generated yet; run \`npx hardhat compile\``,
+            file,
+          });
+          continue;
+        }
+
+        const exported = project.read(bindings);
+        const missing = names.filter((name) => !new RegExp(`\\b${name}\\b`).test(exported));
+        checks.push(
+          missing.length === 0
+            ? {
+                category,
+                status: "pass",
+                message: `${specifier} resolves to ${bindings}, which provides ${names.join(", ") || "the bindings"}`,
+                file,
+              }
+            : {
+                category,
+                status: "warn",
+                message: `${bindings} doesn't export ${missing.join(", ")} yet; run \`npx hardhat compile\``,
+                file,
+              }
+        );
+        continue;
+      }
+
+      if (target.startsWith("..")) {
+        checks.push({ category, status: "fail", message: `${specifier} points outside the project`, file });
+        continue;
+      }
+
+      const resolved = resolveImport(project, target);
+      checks.push(
+        resolved
+          ? { category, status: "pass", message: `${specifier} resolves to ${resolved}`, file }
+          : { category, status: "fail", message: `${specifier} doesn't resolve (looked for ${target})`, file }
+      );
+    }
+  }
+
+  if (checks.length === 0) {
+    checks.push({ category, status: "warn", message: `no test files found in ${config.tests}/` });
+  }
+  return checks;
+}
+
+function checkContractFactories(
+  project: Project,
+  config: ProjectConfig,
+  contracts: Map<string, string>
+): DoctorCheck[] {
+  const category = "Contract factories";
+  const checks: DoctorCheck[] = [];
+  const dirs = [...new Set([config.tests, "scripts", "deploy"])];
+
+  for (const file of dirs.flatMap((dir) => project.files(dir, [".ts", ".js"]))) {
+    const source = blankComments(project.read(file));
+    for (const [, method, name] of source.matchAll(/\b(getContractFactory|getContractAt)\s*\(\s*["'`](\w+)["'`]/g)) {
+      const declared = contracts.get(name);
+      checks.push(
+        declared
+          ? { category, status: "pass", message: `${method}("${name}") matches ${declared}`, file }
+          : { category, status: "fail", message: `${method}("${name}"): no contract ${name} in ${config.sources}/`, file }
+      );
+    }
+  }
+
+  return checks;
+}
+
+/**
+ * Split a script into commands and words, dropping env assignments and cross-env.
+ */
+function scriptCommands(script: string): string[][] {
+  return script
+    .split(/&&|\|\||;|\|/)
+    .map((command) =>
+      (command.match(/"[^"]*"|'[^']*'|\S+/g) ?? [])
+        .map((word) => word.replace(/^["']|["']$/g, ""))
+        .filter((word) => !/^\w+=/.test(word) && word !== "cross-env")
+    )
+    .filter((words) => words.length > 0);
+}
+
+/**
+ * Whether a script argument names a file: a relative path or a file name with
+ * a known extension. Flags such as `--ext .js,.ts` don't count.
+ */
+function looksLikePath(word: string): boolean {
+  if (word.startsWith("-") || word.includes("://")) return false;
+  return (
+    /^\.{1,2}\//.test(word) ||
+    /^[\w@.-]+(\/[\w@.*{},-]+)*\.(js|cjs|mjs|ts|json|sol|yml|yaml)$/.test(word) ||
+    /^[\w-]+\/.*[*]/.test(word)
+  );
+}
+
+function checkPackageScripts(project: Project, scripts: Record<string, string>): DoctorCheck[] {
+  const category = "package.json scripts";
+  const checks: DoctorCheck[] = [];
+
+  for (const [name, script] of Object.entries(scripts)) {
+    for (const words of scriptCommands(script)) {
+      const [command, ...rest] = words;
+
+      if (command === "npm" && rest[0] === "run" && rest[1]) {
+        checks.push(
+          scripts[rest[1]] !== undefined
+            ? { category, status: "pass", message: `"${name}" runs script "${rest[1]}"`, file: "package.json" }
+            : {
+                category,
+                status: "fail",
+                message: `"${name}" runs "npm run ${rest[1]}", which isn't defined`,
+                file: "package.json",
+              }
+        );
+        continue;
+      }
+      if (OUTPUT_COMMANDS.includes(command)) continue;
+
+      for (const word of rest) {
+        if (!looksLikePath(word)) continue;
+
+        // For globs, the directory before the first wildcard has to exist
+        const wildcard = word.search(/[*{]/);
+        const target = normalize(wildcard === -1 ? word : word.slice(0, wildcard).replace(/\/[^/]*$/, "") || ".");
+        if (target === ".") continue;
+
+        checks.push(
+          project.exists(target)
+            ? { category, status: "pass", message: `"${name}" uses ${word}`, file: "package.json" }
+            : {
+                category,
+                status: "fail",
+                message: `"${name}" references ${word}, which doesn't exist`,
+                file: "package.json",
+              }
+        );
+      }
+    }
+  }
+
+  return checks;
+}
+
+/**
+ * Signatures written as `name(...)` in the README must be declared by a contract,
+ * one of its parents (the README's "Inherited" group) or a library it uses.
+ */
+function checkReadme(project: Project, config: ProjectConfig, contracts: Map<string, string>): DoctorCheck[] {
+  const category = "README";
+  if (!project.exists("README.md")) return [];
+
+  const declared = new Set<string>();
+  // Parents whose source isn't installed yet, which may declare what the README documents
+  const unresolved = new Set<string>();
+  for (const [contractName, file] of contracts) {
+    const { abi, unresolved: missing } = project.sourceAbi(file, contractName);
+    for (const entry of abi) {
+      if (entry.name) declared.add(entry.name);
+    }
+    missing.forEach((parent) => unresolved.add(parent));
+    for (const [, name] of stripComments(project.read(file)).matchAll(/\bmodifier\s+(\w+)/g)) {
+      declared.add(name);
+    }
+  }
+
+  const checks: DoctorCheck[] = [];
+  const readme = project.read("README.md");
+  const documented = new Set([...readme.matchAll(/`([a-zA-Z_]\w*)\([^`]*\)[^`]*`/g)].map(([, name]) => name));
+  for (const name of documented) {
+    if (declared.has(name)) {
+      checks.push({ category, status: "pass", message: `${name}() is declared`, file: "README.md" });
+    } else if (unresolved.size > 0) {
+      checks.push({
+        category,
+        status: "warn",
+        message: `documents ${name}(), which may come from ${[...unresolved].join(", ")} (not found: run npm install)`,
+        file: "README.md",
+      });
+    } else {
+      checks.push({
+        category,
+        status: "fail",
+        message: `documents ${name}(), which no contract in ${config.sources}/ declares`,
+        file: "README.md",
+      });
+    }
+  }
+  return checks;
+}
+
+/**
+ * Run every check against the project in `projectDir`.
+ */
+export function runDoctor(projectDir: string, fileSystem: FileSystem = fs): DoctorReport {
+  const project = new Project(path.resolve(projectDir), fileSystem);
+  const checks: DoctorCheck[] = [];
+
+  let packageJson: { dependencies?: object; devDependencies?: object; scripts?: Record<string, string> } = {};
+  if (!project.exists("package.json")) {
+    checks.push({ category: "Project", status: "fail", message: "package.json not found" });
+  } else {
+    try {
+      packageJson = JSON.parse(project.read("package.json"));
+    } catch (err) {
+      checks.push({
+        category: "Project",
+        status: "fail",
+        message: `package.json is not valid JSON: ${(err as Error).message}`,
+      });
+    }
+  }
+  const dependencies = new Set([
+    ...Object.keys(packageJson.dependencies ?? {}),
+    ...Object.keys(packageJson.devDependencies ?? {}),
+  ]);
+
+  const configFile = ["hardhat.config.ts", "hardhat.config.js"].find((file) => project.exists(file));
+  let config: ProjectConfig = {
+    sources: DEFAULT_PATHS.sources,
+    tests: DEFAULT_PATHS.tests,
+    typechainDir: DEFAULT_TYPECHAIN_DIR,
+    paths: {},
+    plugins: [],
+  };
+  if (configFile) {
+    config = readHardhatConfig(project, configFile);
+    checks.push(...checkHardhatConfig(project, configFile, config, dependencies));
+  } else {
+    checks.push({ category: "Hardhat config", status: "fail", message: "hardhat.config.ts not found" });
+  }
+
+  const contracts = findContracts(project, config.sources);
+  if (contracts.size === 0) {
+    checks.push({ category: "Hardhat config", status: "warn", message: `no contracts found in ${config.sources}/` });
+  }
+
+  checks.push(...checkTestImports(project, config, contracts, dependencies));
+  checks.push(...checkContractFactories(project, config, contracts));
+  checks.push(...checkPackageScripts(project, packageJson.scripts ?? {}));
+  checks.push(...checkReadme(project, config, contracts));
+
+  return {
+    projectDir: project.dir,
+    checks,
+    passed: checks.every((check) => check.status !== "fail"),
+  };
+}
@@ -0,0 +1,57 @@
+/**
+ * Errors thrown by the example generator API
+ *
+ * Every error extends CreateExampleError, so callers can catch the whole
+ * family at once and branch on the subclass when they need the details.
+ */
+
+export class CreateExampleError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = new.target.name;
+  }
+}
+
+// The requested example name is not in the registry
+export class UnknownExampleError extends CreateExampleError {
+  constructor(
+    readonly example: string,
+    readonly available: string[]
+  ) {
+    super(`Unknown example: ${example}. Available examples: ${available.join(", ") || "(none)"}`);
+  }
+}
+
+// A manifest that parsed but doesn't fit the contract or the other selected examples
+export class InvalidManifestError extends CreateExampleError {
+  constructor(
+    readonly manifestPath: string,
+    detail: string
+  ) {
+    super(`${manifestPath}: ${detail}`);
+  }
+}
+
+// Options that can't be satisfied, e.g. an empty category or two conflict policies
+export class InvalidOptionsError extends CreateExampleError {}
+
+// Existing files would be overwritten and no conflict policy was given
+export class FileConflictError extends CreateExampleError {
+  constructor(
+    readonly outputDir: string,
+    readonly conflicts: string[]
+  ) {
+    super(`${conflicts.length} existing file(s) in ${outputDir} differ from the generated ones`);
+  }
+}
+
+// A snippet directive names a file, function or marker that doesn't exist (any more)
+export class SnippetNotFoundError extends CreateExampleError {
+  constructor(
+    readonly referencedFrom: string,
+    readonly directive: string,
+    detail: string
+  ) {
+    super(`${referencedFrom}: ${directive} - ${detail}`);
+  }
+}
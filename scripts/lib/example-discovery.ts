@@ -0,0 +1,144 @@
+/**
+ * Documented examples - every contract/test pair in the repository
+ *
+ * Examples with a manifest (*.example.json) are taken from it. Any other
+ * contract under the scanned projects that has a test next to it becomes an
+ * example too, described by its own NatSpec:
+ *
+ *   contracts/<category>/X.sol        + test/<category>/X.ts
+ *   <project>/contracts/X.sol         + <project>/test/X.ts  (or X.test.ts, X.js, X.test.js)
+ *
+ * Its name is the contract name in kebab case, its title and description come
+ * from @title and @notice, and `@custom:learning-path <n>` places it in the
+ * learning path. The category is `@custom:category`, else the directory under
+ * contracts/, else the project directory.
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import { ManifestRegistry, titleCase } from "./manifest";
+import { parseNatSpec } from "./natspec";
+
+// Projects scanned for contract/test pairs, relative to the repository root ("." is the root project)
+export const DISCOVERY_PROJECTS = [".", "base-template", "daovoting"];
+
+const TEST_SUFFIXES = [".ts", ".test.ts", ".js", ".test.js"];
+
+const SKIPPED_DIRS = ["node_modules", "artifacts", "cache", "types", "fhevmTemp"];
+
+export interface DocExample {
+  name: string;
+  title: string;
+  description: string;
+  category: string;
+  // Position in the learning path, lowest first; undefined sorts last
+  learningPath?: number;
+  contract: string;
+  tests: string[];
+  // Where the example was described: its manifest, or the contract for inferred examples
+  source: string;
+}
+
+// "SecureDAOVoting" -> "secure-dao-voting"
+function kebabCase(pascal: string): string {
+  return pascal
+    .replace(/([a-z0-9])([A-Z])/g, "$1-$2")
+    .replace(/([A-Z]+)([A-Z][a-z])/g, "$1-$2")
+    .toLowerCase();
+}
+
+function findContracts(dir: string, found: string[] = []): string[] {
+  if (!fs.existsSync(dir)) return found;
+
+  for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+    if (SKIPPED_DIRS.includes(entry.name)) continue;
+
+    const entryPath = path.join(dir, entry.name);
+    if (entry.isDirectory()) {
+      findContracts(entryPath, found);
+    } else if (entry.name.endsWith(".sol")) {
+      found.push(entryPath);
+    }
+  }
+
+  return found;
+}
+
+/**
+ * The example for a contract without a manifest, or undefined when it has no
+ * test to pair with.
+ */
+function inferExample(project: string, contractFile: string, rootDir: string): DocExample | undefined {
+  const contractsDir = path.join(rootDir, project, "contracts");
+  const relativeDir = path.dirname(path.relative(contractsDir, contractFile));
+  const contractName = path.basename(contractFile, ".sol");
+
+  const testBase = path.join(rootDir, project, "test", relativeDir, contractName);
+  const testFile = TEST_SUFFIXES.map((suffix) => testBase + suffix).find((file) => fs.existsSync(file));
+  if (!testFile) return undefined;
+
+  const declarations = parseNatSpec(fs.readFileSync(contractFile, "utf-8"));
+  const doc = declarations.find((declaration) => declaration.kind === "contract" && declaration.name === contractName)?.doc;
+  const name = kebabCase(contractName);
+  const learningPath = Number.parseInt(doc?.custom["learning-path"] ?? "", 10);
+  const category =
+    doc?.custom.category ??
+    (relativeDir !== "." ? relativeDir.split(path.sep)[0] : path.basename(path.resolve(rootDir, project)));
+
+  return {
+    name,
+    title: doc?.title || titleCase(name),
+    description: doc?.notice || doc?.dev.split("\n")[0] || `The ${contractName} contract and its tests`,
+    category,
+    learningPath: Number.isNaN(learningPath) ? undefined : learningPath,
+    contract: path.relative(rootDir, contractFile),
+    tests: [path.relative(rootDir, testFile)],
+    source: path.relative(rootDir, contractFile),
+  };
+}
+
+// Learning path first, then title
+function compareExamples(a: DocExample, b: DocExample): number {
+  const order = (a.learningPath ?? Infinity) - (b.learningPath ?? Infinity);
+  return order !== 0 && !Number.isNaN(order) ? order : a.title.localeCompare(b.title);
+}
+
+/**
+ * All documented examples in learning-path order: the registry's manifests,
+ * plus the contract/test pairs no manifest covers. Inferred examples never
+ * replace a manifest with the same name.
+ */
+export function discoverExamples(
+  registry: ManifestRegistry,
+  rootDir: string = process.cwd(),
+  projects: string[] = DISCOVERY_PROJECTS
+): DocExample[] {
+  const examples: DocExample[] = Object.values(registry.examples).map((manifest) => ({
+    name: manifest.name,
+    title: manifest.title,
+    description: manifest.description,
+    category: manifest.category,
+    learningPath: manifest.learningPath,
+    contract: manifest.contract,
+    tests: manifest.tests,
+    source: manifest.manifestPath,
+  }));
+
+  const covered = new Set(examples.map((example) => path.resolve(rootDir, example.contract)));
+  const names = new Set(examples.map((example) => example.name));
+
+  for (const project of projects) {
+    const contractFiles = findContracts(path.join(rootDir, project, "contracts")).sort();
+    for (const contractFile of contractFiles) {
+      if (covered.has(path.resolve(contractFile))) continue;
+
+      const example = inferExample(project, contractFile, rootDir);
+      if (!example || names.has(example.name)) continue;
+
+      names.add(example.name);
+      examples.push(example);
+    }
+  }
+
+  return examples.sort(compareExamples);
+}
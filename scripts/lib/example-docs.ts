@@ -0,0 +1,201 @@
+/**
+ * Example documentation pages - the Markdown generate-docs renders for each example
+ *
+ * Every documented example (a manifest, or a contract/test pair no manifest
+ * covers) gets one page, built from its contract's NatSpec and API and its
+ * tests' describe/it outline. A DocTarget (lib/doc-targets.ts) then turns the
+ * pages into the files of a docs site.
+ *
+ * scaffoldExample renders a new example's page with the same code, so the
+ * page and SUMMARY.md it writes are what generate-docs would write.
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import { loadContractApi } from "./contract-api";
+import {
+  renderAccessControl,
+  renderContractReference,
+  renderFheOperations,
+  renderLifecycle,
+  renderOverview,
+  renderPatterns,
+  renderPublicFunctions,
+} from "./contract-docs";
+import { unifiedDiff } from "./diff";
+import { DocPage } from "./doc-targets";
+import { discoverExamples } from "./example-discovery";
+import { categoryTitle, ManifestRegistry, MANIFEST_SUFFIX } from "./manifest";
+import { parseNatSpec } from "./natspec";
+import { resolveSnippets } from "./snippets";
+import { analyzeFunctions, findFheOperations, findLifecycle } from "./source-analysis";
+import { renderTestSuites } from "./test-docs";
+import { parseTestSuites } from "./test-suite";
+
+export interface DocConfig {
+  name: string;
+  description: string;
+  contractFile: string;
+  testFile: string;
+  category: string;
+  learningPath?: number;
+  // Whether the example has a manifest, and so can be generated with create-fhevm-example
+  manifest: boolean;
+}
+
+/**
+ * Manifests plus every other contract/test pair, by example name in learning-path order.
+ */
+export function loadDocConfigs(registry: ManifestRegistry, rootDir: string = process.cwd()): Record<string, DocConfig> {
+  return Object.fromEntries(
+    discoverExamples(registry, rootDir).map((example) => [
+      example.name,
+      {
+        name: example.title,
+        description: example.description,
+        contractFile: example.contract,
+        testFile: example.tests[0],
+        category: categoryTitle(example.category),
+        learningPath: example.learningPath,
+        manifest: example.source.endsWith(MANIFEST_SUFFIX),
+      },
+    ])
+  );
+}
+
+/**
+ * The Markdown page of one example. Paths in `config` are relative to `rootDir`.
+ */
+export function generateDocumentation(exampleName: string, config: DocConfig, rootDir: string = process.cwd()): string {
+  const contractFile = path.join(rootDir, config.contractFile);
+  const testFile = path.join(rootDir, config.testFile);
+  let doc = `# ${config.name}\n\n`;
+  doc += `${config.description}\n\n`;
+
+  // Contract-derived sections: each one is left out when the source has nothing for it
+  if (fs.existsSync(contractFile)) {
+    const contractContent = fs.readFileSync(contractFile, "utf-8");
+    const declarations = parseNatSpec(contractContent);
+    const api = loadContractApi(config.contractFile, rootDir);
+    let contractDoc = "";
+
+    const overview = renderOverview(api, declarations);
+    if (overview) {
+      contractDoc += `## Overview\n\n${overview}`;
+    }
+
+    const publicFunctions = renderPublicFunctions(api);
+    if (publicFunctions) {
+      contractDoc += `## Public Functions\n\n${publicFunctions}`;
+    }
+
+    const accessControl = renderAccessControl(analyzeFunctions(contractContent));
+    if (accessControl) {
+      contractDoc += `## Access Control, Events and Reverts\n\n${accessControl}`;
+    }
+
+    const lifecycle = findLifecycle(contractContent);
+    if (lifecycle) {
+      contractDoc += `## Lifecycle\n\n${renderLifecycle(api.contractName, lifecycle)}`;
+    }
+
+    const fheOperations = renderFheOperations(findFheOperations(contractContent));
+    if (fheOperations) {
+      contractDoc += `## FHE Operations Used\n\n${fheOperations}`;
+    }
+
+    const patterns = renderPatterns(declarations);
+    if (patterns) {
+      contractDoc += `## FHEVM Patterns Demonstrated\n\n${patterns}`;
+    }
+
+    // Smart Contract Section: from the compiler output, or the sources when not compiled
+    contractDoc += `## Smart Contract\n\n`;
+    contractDoc += renderContractReference(api);
+
+    // Snippet directives in the contract's doc comments point into its sources
+    doc += resolveSnippets(contractDoc, contractFile, rootDir);
+  }
+
+  // Testing Section
+  if (fs.existsSync(testFile)) {
+    doc += `## Testing\n\n`;
+
+    const testContent = fs.readFileSync(testFile, "utf-8");
+    doc += resolveSnippets(renderTestSuites(config.testFile, parseTestSuites(testContent)), testFile, rootDir);
+
+    doc += `### Running Tests\n\n`;
+    doc += "```bash\n";
+    doc += "npm test\n";
+    doc += "```\n\n";
+
+    doc += "With coverage report:\n\n";
+    doc += "```bash\n";
+    doc += "npm run coverage\n";
+    doc += "```\n\n";
+  }
+
+  // Quick Start: only examples with a manifest can be generated as standalone projects
+  if (config.manifest) {
+    doc += `## Quick Start\n\n`;
+    doc += "```bash\n";
+    doc += "# Generate a standalone Hardhat project\n";
+    doc += `npx ts-node scripts/create-fhevm-example.ts ${exampleName}\n`;
+    doc += `cd examples/${exampleName}\n`;
+    doc += "\n";
+    doc += "# Install, compile and test\n";
+    doc += "npm install\n";
+    doc += "npm run compile\n";
+    doc += "npm test\n";
+    doc += "```\n\n";
+  }
+
+  // Resources
+  doc += `## Resources\n\n`;
+  doc += `- [FHEVM Documentation](https://docs.zama.ai/fhevm)\n`;
+  doc += `- [FHEVM GitHub Repository](https://github.com/zama-ai/fhevm)\n`;
+  doc += `- [Zama Community](https://www.zama.ai/community)\n`;
+  doc += `- [Discord Server](https://discord.com/invite/zama)\n\n`;
+
+  // License, from the contract's SPDX identifier
+  const license = fs.existsSync(contractFile)
+    ? /SPDX-License-Identifier:\s*(\S+)/.exec(fs.readFileSync(contractFile, "utf-8"))?.[1]
+    : undefined;
+  if (license) {
+    doc += `## License\n\n`;
+    doc += `${license}\n\n`;
+  }
+
+  doc += `---\n\n`;
+  doc += `**Built for the Zama FHEVM Bounty Program**\n`;
+
+  return doc;
+}
+
+/**
+ * One example's page, as the doc targets take it.
+ */
+export function docPage(exampleName: string, config: DocConfig, rootDir: string = process.cwd()): DocPage {
+  return {
+    name: exampleName,
+    title: config.name,
+    description: config.description,
+    category: config.category,
+    markdown: generateDocumentation(exampleName, config, rootDir),
+  };
+}
+
+/**
+ * Compare generated docs with the files on disk, ignoring line endings.
+ * Returns a unified diff per stale file; paths are relative to `rootDir`.
+ */
+export function staleDocs(docs: Map<string, string>, rootDir: string = process.cwd()): string[] {
+  const diffs: string[] = [];
+  for (const [filePath, content] of docs) {
+    const file = path.resolve(rootDir, filePath);
+    const existing = fs.existsSync(file) ? fs.readFileSync(file, "utf-8") : "";
+    if (existing.replace(/\r\n/g, "\n") === content) continue;
+    diffs.push(unifiedDiff(existing, content, `a/${filePath}`, `b/${filePath}`));
+  }
+  return diffs;
+}
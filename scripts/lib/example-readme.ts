@@ -0,0 +1,575 @@
+/**
+ * README and documentation pages for generated projects
+ *
+ * Everything here is rendered from the example's own sources: the manifest,
+ * the contract's ABI and NatSpec, and the describe/it outline of its tests.
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import { AbiEntry, ContractInterface, findEvents, findFunctions, inheritedFrom } from "./contract-interface";
+import { ExampleManifest } from "./manifest";
+import { DocumentedDeclaration, findContractDoc, findDeclarationDoc, NatSpecDoc, parseNatSpec } from "./natspec";
+import { DeployScriptPaths, deployScriptPaths, exampleDestination } from "./project-layout";
+import { countTests, flattenTests, parseTestSuites, TestSuite } from "./test-suite";
+
+// Sources an example's README is built from
+export interface ExampleSources {
+  manifest: ExampleManifest;
+  contract: ContractInterface;
+  natspec: DocumentedDeclaration[];
+  testSuites: { file: string; suites: TestSuite[] }[];
+}
+
+export function loadExampleSources(
+  manifest: ExampleManifest,
+  contract: ContractInterface,
+  rootDir: string = process.cwd()
+): ExampleSources {
+  return {
+    manifest,
+    contract,
+    natspec: parseNatSpec(fs.readFileSync(path.join(rootDir, manifest.contract), "utf-8")),
+    testSuites: manifest.tests.map((file) => ({
+      file,
+      suites: parseTestSuites(fs.readFileSync(path.join(rootDir, file), "utf-8")),
+    })),
+  };
+}
+
+function firstLine(text: string): string {
+  return text.split("\n")[0].trim();
+}
+
+function formatSignature(entry: AbiEntry): string {
+  const inputs = (entry.inputs ?? []).map((input) => `${input.type} ${input.name}`.trim()).join(", ");
+  const outputs = (entry.outputs ?? []).map((output) => `${output.type} ${output.name}`.trim()).join(", ");
+  return `${entry.name}(${inputs})${outputs ? ` returns (${outputs})` : ""}`;
+}
+
+// Comments shown next to well-known files in the README project tree
+const FILE_DESCRIPTIONS: Record<string, string> = {
+  ".env.example": "Environment variable template",
+  ".eslintignore": "Paths skipped by ESLint",
+  ".gitignore": "Git ignore rules",
+  ".solcover.js": "solidity-coverage configuration",
+  "hardhat.config.ts": "Hardhat configuration",
+  "package.json": "Dependencies and scripts",
+  "README.md": "This file",
+  "tsconfig.json": "TypeScript configuration",
+  "frontend/package.json": "Client dependencies (Vite + React)",
+  "frontend/src/artifacts.js": "Loads ABIs from artifacts/ and addresses from deployments/",
+  "frontend/src/contracts.js": "Contracts shown by the client",
+  "frontend/src/components/FunctionPanel.jsx": "Call form for one contract function",
+  "frontend/src/hooks/useWallet.jsx": "Wallet connection",
+};
+
+/**
+ * Tree comments for the files generated for one example.
+ */
+function describeExampleFiles(sources: ExampleSources, deployPaths: DeployScriptPaths): Record<string, string> {
+  const { manifest, contract } = sources;
+  const contractDoc = findContractDoc(sources.natspec, contract.contractName);
+  const descriptions: Record<string, string> = {
+    [exampleDestination(manifest.contract, "contracts")]: firstLine(contractDoc?.notice || "Example contract"),
+    [deployPaths.script]: `Deploys ${contract.contractName} (hardhat run)`,
+    [deployPaths.hardhatDeploy]: `hardhat-deploy script for ${contract.contractName}`,
+  };
+  for (const test of manifest.tests) {
+    descriptions[exampleDestination(test, "test")] = `Tests for ${contract.contractName}`;
+  }
+  for (const extra of manifest.extraFiles) {
+    if (extra.description) descriptions[extra.destination] = firstLine(extra.description);
+  }
+  return descriptions;
+}
+
+interface TreeNode {
+  children: Map<string, TreeNode>;
+  // Project-relative path, set on files only
+  file?: string;
+}
+
+/**
+ * Render the generated project's files as a tree, directories first.
+ */
+function renderProjectStructure(files: string[], descriptions: Record<string, string>): string {
+  const root: TreeNode = { children: new Map() };
+  for (const file of files) {
+    let node = root;
+    for (const part of file.split("/")) {
+      if (!node.children.has(part)) node.children.set(part, { children: new Map() });
+      node = node.children.get(part)!;
+    }
+    node.file = file;
+  }
+
+  const lines: { label: string; comment?: string }[] = [];
+  const walk = (node: TreeNode, indent: string) => {
+    const entries = [...node.children.entries()].sort(([nameA, a], [nameB, b]) =>
+      a.file === undefined && b.file !== undefined
+        ? -1
+        : a.file !== undefined && b.file === undefined
+          ? 1
+          : nameA.localeCompare(nameB)
+    );
+    entries.forEach(([name, child], index) => {
+      const last = index === entries.length - 1;
+      const branch = last ? "└── " : "├── ";
+      if (child.file === undefined) {
+        lines.push({ label: `${indent}${branch}${name}/` });
+        walk(child, indent + (last ? "    " : "│   "));
+      } else {
+        lines.push({
+          label: `${indent}${branch}${name}`,
+          comment: descriptions[child.file] ?? FILE_DESCRIPTIONS[child.file],
+        });
+      }
+    });
+  };
+  walk(root, "");
+
+  const width = Math.max(...lines.map((line) => line.label.length)) + 2;
+  return lines
+    .map(({ label, comment }) => (comment ? `${label.padEnd(width)}# ${comment}` : label))
+    .join("\n")
+    .concat("\n");
+}
+
+function renderKeyConcepts(sources: ExampleSources, contractDoc?: NatSpecDoc): string {
+  let concepts = "";
+
+  for (const section of contractDoc?.sections ?? []) {
+    concepts += `### ${section.heading}\n\n${section.body}\n\n`;
+  }
+
+  // Pattern sections documented on individual functions
+  const patterns = new Map<string, string[]>();
+  for (const declaration of sources.natspec) {
+    if (declaration.kind !== "function") continue;
+    for (const section of declaration.doc.sections) {
+      if (!/pattern/i.test(section.heading)) continue;
+      const name = section.heading.replace(/^(FHEVM\s+)?Pattern:\s*/i, "");
+      patterns.set(name, [...(patterns.get(name) ?? []), declaration.name]);
+    }
+  }
+
+  if (patterns.size > 0) {
+    concepts += `### FHEVM Patterns Demonstrated\n\n`;
+    for (const [pattern, functions] of patterns) {
+      concepts += `- **${pattern}**: ${functions.map((fn) => `\`${fn}\``).join(", ")}\n`;
+    }
+    concepts += "\n";
+  }
+
+  if (!concepts && contractDoc?.dev) {
+    concepts = `${contractDoc.dev}\n\n`;
+  }
+
+  return concepts || `See the NatSpec comments in \`${path.basename(sources.manifest.contract)}\`.\n\n`;
+}
+
+function renderTesting(sources: ExampleSources): string {
+  let testing = "";
+
+  for (const { file, suites } of sources.testSuites) {
+    testing += `The test suite (\`${exampleDestination(file, "test")}\`) includes ${countTests(suites)} tests:\n\n`;
+
+    // Group by describe path, leaving out the outermost block which names the whole suite
+    const groups = new Map<string, string[]>();
+    for (const { path: suitePath, test } of flattenTests(suites)) {
+      const group = suitePath.slice(1).join(" › ") || suitePath[0] || "General";
+      groups.set(group, [...(groups.get(group) ?? []), test.title]);
+    }
+
+    for (const [group, titles] of groups) {
+      testing += `### ${group}\n\n`;
+      for (const title of titles) {
+        testing += `- ${title}\n`;
+      }
+      testing += "\n";
+    }
+  }
+
+  return testing;
+}
+
+function renderSmartContract(sources: ExampleSources, contractDoc?: NatSpecDoc): string {
+  const { contract, natspec } = sources;
+  const describe = (name: string) =>
+    firstLine(
+      findDeclarationDoc(natspec, "function", name)?.notice ||
+        findDeclarationDoc(natspec, "variable", name)?.notice ||
+        ""
+    );
+
+  let section = `### Contract: ${contract.contractName}\n\n`;
+  if (contractDoc?.notice) {
+    section += `${contractDoc.notice}\n\n`;
+  }
+
+  // Members of parent contracts and libraries are listed apart, since they aren't the example's own API
+  const own = (entry: AbiEntry) => !inheritedFrom(contract, entry);
+  const functions = findFunctions(contract.abi).filter(own);
+  const groups: [string, AbiEntry[]][] = [
+    ["State-Changing Functions", functions.filter((fn) => !["view", "pure"].includes(fn.stateMutability ?? ""))],
+    ["View Functions", functions.filter((fn) => ["view", "pure"].includes(fn.stateMutability ?? ""))],
+  ];
+
+  for (const [title, entries] of groups) {
+    if (entries.length === 0) continue;
+    section += `**${title}:**\n\n`;
+    for (const entry of entries) {
+      const description = describe(entry.name ?? "");
+      section += `- \`${formatSignature(entry)}\`${description ? ` - ${description}` : ""}\n`;
+    }
+    section += "\n";
+  }
+
+  const events = findEvents(contract.abi).filter(own);
+  if (events.length > 0) {
+    section += `**Events:**\n\n`;
+    for (const event of events) {
+      const description = firstLine(findDeclarationDoc(natspec, "event", event.name ?? "")?.notice ?? "");
+      section += `- \`${formatSignature(event)}\`${description ? ` - ${description}` : ""}\n`;
+    }
+    section += "\n";
+  }
+
+  const inherited = [...findFunctions(contract.abi), ...findEvents(contract.abi)].filter((entry) => !own(entry));
+  if (inherited.length > 0) {
+    section += `**Inherited:**\n\n`;
+    for (const entry of inherited) {
+      const declaredBy = inheritedFrom(contract, entry)?.declaredBy;
+      section += `- ${entry.type === "event" ? "event " : ""}\`${formatSignature(entry)}\`${declaredBy ? ` - from \`${declaredBy}\`` : ""}\n`;
+    }
+    section += "\n";
+  }
+
+  return section;
+}
+
+/**
+ * The example's extra files that have a usage command, e.g. a script that
+ * sets up the deployed contract.
+ */
+function renderExtraScripts(sources: ExampleSources, heading: string): string {
+  const scripts = sources.manifest.extraFiles.filter((extra) => extra.usage);
+  if (scripts.length === 0) return "";
+
+  let section = `${heading}\n\n`;
+  for (const extra of scripts) {
+    section += `\`${extra.destination}\`${extra.description ? `: ${extra.description}` : ""}\n\n`;
+    section += `\`\`\`bash\n${extra.usage}\n\`\`\`\n\n`;
+  }
+  return section;
+}
+
+function renderFrontend(files: string[]): string {
+  if (!files.includes("frontend/package.json")) return "";
+
+  return `## Frontend
+
+\`frontend/\` is a minimal Vite + React client with a wallet connect button and
+one panel per public function. It has no ABI or address of its own: it reads
+the ABI from \`artifacts/\` and the address from hardhat-deploy's
+\`deployments/<network>/\`, so compile and deploy first:
+
+\`\`\`bash
+npm run compile
+npm run chain                # in a second terminal
+npm run deploy:localhost
+cd frontend
+npm install
+npm run dev                  # http://localhost:3000
+\`\`\`
+
+Set \`VITE_NETWORK\` (default \`localhost\`) to use another network's deployment,
+e.g. \`VITE_NETWORK=sepolia npm run dev\` after \`npm run deploy:sepolia\`.
+
+Functions with encrypted parameters (\`externalEuint32\`, ...) can't be called
+from this panel: they're shown disabled, since encrypting an input needs the
+FHEVM relayer SDK, which the client doesn't include. Call them from Hardhat
+instead, where the FHEVM plugin encrypts inputs with
+\`fhevm.createEncryptedInput(contractAddress, signer.address)\`; the tests in
+\`test/\` show every such call.
+
+`;
+}
+
+function renderOverview(contractDoc?: NatSpecDoc): string {
+  let overview = contractDoc?.notice ? `${contractDoc.notice}\n\n` : "";
+  if (contractDoc?.dev) overview += `${contractDoc.dev}\n\n`;
+  return overview;
+}
+
+export function generateREADME(sources: ExampleSources, files: string[]): string {
+  const { manifest, contract } = sources;
+  const contractDoc = findContractDoc(sources.natspec, contract.contractName);
+
+  const readmeContent = `# ${contractDoc?.title ?? contract.contractName}
+
+${manifest.description}
+
+## Overview
+
+${renderOverview(contractDoc)}This standalone FHEVM example (\`${manifest.name}\`, category: ${manifest.category}) was generated from \`${contract.contractName}.sol\`.
+
+## Quick Start
+
+### Prerequisites
+- Node.js >= 20
+- npm >= 7
+
+### Installation
+
+\`\`\`bash
+npm install
+\`\`\`
+
+### Compile Contracts
+
+\`\`\`bash
+npm run compile
+\`\`\`
+
+### Run Tests
+
+\`\`\`bash
+npm test
+\`\`\`
+
+### Test with Gas Report
+
+\`\`\`bash
+REPORT_GAS=true npm test
+\`\`\`
+
+### Generate Coverage Report
+
+\`\`\`bash
+npm run coverage
+\`\`\`
+
+## Project Structure
+
+\`\`\`
+${renderProjectStructure(files, describeExampleFiles(sources, deployScriptPaths(manifest, false)))}\`\`\`
+
+## Key Concepts
+
+${renderKeyConcepts(sources, contractDoc)}## Testing
+
+${renderTesting(sources)}Run tests with:
+
+\`\`\`bash
+npm test
+\`\`\`
+
+## Smart Contract
+
+${renderSmartContract(sources, contractDoc)}## Learning Resources
+
+- [FHEVM Documentation](https://docs.zama.ai/fhevm)
+- [FHEVM GitHub](https://github.com/zama-ai/fhevm)
+- [Zama Community](https://www.zama.ai/community)
+
+## Deployment
+
+### Local Testing
+
+\`\`\`bash
+npm run chain
+npm run deploy:localhost
+\`\`\`
+
+${renderExtraScripts(sources, "### After Deployment")}### Deploy to Sepolia Testnet
+
+1. Create \`.env\` file with:
+\`\`\`env
+PRIVATE_KEY=your_private_key
+SEPOLIA_RPC_URL=https://sepolia.infura.io/v3/YOUR_KEY
+ETHERSCAN_API_KEY=your_etherscan_key
+\`\`\`
+
+2. Deploy:
+\`\`\`bash
+npx hardhat run scripts/deploy.ts --network sepolia
+\`\`\`
+
+3. Verify:
+\`\`\`bash
+npx hardhat verify --network sepolia CONTRACT_ADDRESS
+\`\`\`
+
+${renderFrontend(files)}## Development
+
+### Code Style
+
+Code follows these conventions:
+- Solidity: NatSpec documentation on all functions
+- Tests: Clear test names describing behavior
+- TypeScript: Strict mode enabled, full type safety
+
+### Linting
+
+\`\`\`bash
+npm run lint
+npm run prettier:write
+\`\`\`
+
+### Building
+
+\`\`\`bash
+npm run build:ts
+\`\`\`
+
+## License
+
+BSD-3-Clause-Clear License
+
+## Support
+
+For questions and support:
+- [Zama Community Forum](https://www.zama.ai/community)
+- [GitHub Issues](https://github.com/zama-ai/fhevm/issues)
+- [Discord](https://discord.com/invite/zama)
+
+---
+
+**Built for the Zama FHEVM Bounty Program**
+
+*Advancing privacy-preserving blockchain development with Fully Homomorphic Encryption*
+`;
+
+  return readmeContent;
+}
+
+/**
+ * Page for one example of a workspace, linked from the workspace README.
+ */
+export function generateExampleDoc(sources: ExampleSources, deployPaths: DeployScriptPaths): string {
+  const { manifest, contract } = sources;
+  const contractDoc = findContractDoc(sources.natspec, contract.contractName);
+  const tests = manifest.tests.map((test) => exampleDestination(test, "test"));
+
+  return `# ${contractDoc?.title ?? contract.contractName}
+
+${manifest.description}
+
+## Overview
+
+${renderOverview(contractDoc)}- **Example**: \`${manifest.name}\` (category: ${manifest.category})
+- **Contract**: [\`${exampleDestination(manifest.contract, "contracts")}\`](../${exampleDestination(manifest.contract, "contracts")})
+- **Tests**: ${tests.map((test) => `[\`${test}\`](../${test})`).join(", ")}
+
+## Key Concepts
+
+${renderKeyConcepts(sources, contractDoc)}## Testing
+
+${renderTesting(sources)}Run only this example's tests with:
+
+\`\`\`bash
+npx hardhat test ${tests.join(" ")}
+\`\`\`
+
+## Smart Contract
+
+${renderSmartContract(sources, contractDoc)}## Deployment
+
+\`\`\`bash
+npx hardhat run ${deployPaths.script} --network localhost
+# or, with hardhat-deploy
+npx hardhat deploy --network localhost --tags ${contract.contractName}
+\`\`\`
+
+${renderExtraScripts(sources, "### After Deployment")}---
+
+[← All examples](../README.md)
+`;
+}
+
+/**
+ * Index README of a workspace holding several examples.
+ */
+export function generateWorkspaceREADME(title: string, examples: ExampleSources[], files: string[]): string {
+  const descriptions: Record<string, string> = {};
+  let table = "| Example | Category | Contract | Description |\n|---------|----------|----------|-------------|\n";
+
+  for (const sources of examples) {
+    const { manifest, contract } = sources;
+    Object.assign(descriptions, describeExampleFiles(sources, deployScriptPaths(manifest, true)));
+    descriptions[`docs/${manifest.name}.md`] = `Documentation for ${manifest.name}`;
+    table += `| [${manifest.name}](docs/${manifest.name}.md) | ${manifest.category} | \`${contract.contractName}\` | ${manifest.description} |\n`;
+  }
+
+  const first = examples[0];
+  const firstTest = exampleDestination(first.manifest.tests[0], "test");
+
+  return `# ${title}
+
+${examples.length} FHEVM examples in one Hardhat project. They share \`hardhat.config.ts\`, one set of
+dependencies in \`package.json\` and the TypeChain bindings generated into \`types/\`.
+
+## Examples
+
+${table}
+## Quick Start
+
+### Prerequisites
+- Node.js >= 20
+- npm >= 7
+
+### Installation
+
+\`\`\`bash
+npm install
+\`\`\`
+
+### Compile Contracts
+
+\`\`\`bash
+npm run compile
+\`\`\`
+
+Compiling also generates the TypeChain bindings for every contract in \`types/\`.
+
+### Run Tests
+
+\`\`\`bash
+# All examples
+npm test
+
+# A single example
+npx hardhat test ${firstTest}
+\`\`\`
+
+## Project Structure
+
+\`\`\`
+${renderProjectStructure(files, descriptions)}\`\`\`
+
+## Deployment
+
+\`\`\`bash
+npm run chain
+# Deploys every example
+npm run deploy:localhost
+# Deploys one example
+npx hardhat deploy --network localhost --tags ${first.contract.contractName}
+\`\`\`
+
+Each example also has a standalone deploy script in \`scripts/\`, e.g.
+\`npx hardhat run ${deployScriptPaths(first.manifest, true).script} --network localhost\`.
+
+${renderFrontend(files)}## Learning Resources
+
+- [FHEVM Documentation](https://docs.zama.ai/fhevm)
+- [FHEVM GitHub](https://github.com/zama-ai/fhevm)
+- [Zama Community](https://www.zama.ai/community)
+
+## License
+
+BSD-3-Clause-Clear License
+`;
+}
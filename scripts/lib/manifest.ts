@@ -0,0 +1,318 @@
+/**
+ * Example manifests - discovery and validation of `*.example.json` files
+ *
+ * Every example ships a manifest next to its contract, e.g.
+ * `contracts/basic/FHECounter.example.json`:
+ *
+ *   {
+ *     "name": "fhe-counter",
+ *     "title": "FHE Counter",
+ *     "description": "Basic encrypted counter ...",
+ *     "category": "basic",
+ *     "contract": "contracts/basic/FHECounter.sol",
+ *     "tests": ["test/basic/FHECounter.ts"],
+ *     "keywords": ["counter"],
+ *     "constructorArgs": [],
+ *     "setup": [],
+ *     "extraFiles": []
+ *   }
+ *
+ * "title" is optional and defaults to the name in title case. The optional
+ * "learningPath" number orders examples in the generated docs, lowest first;
+ * examples without one come after those with one.
+ *
+ * Optional "dependencies" and "devDependencies" objects (package name to
+ * version range) are merged into the generated package.json on top of the
+ * template's.
+ *
+ * `setup` lists calls made right after deployment, e.g.
+ * `{ "method": "setVoterWeight", "args": ["$deployer", 1000] }`. The string
+ * "$deployer" stands for the deploying account in constructor and setup args.
+ *
+ * `extraFiles` are copied into the generated project, e.g. a script run after
+ * deployment: `{ "source": "base-template/scripts/x.ts", "destination":
+ * "scripts/x.ts", "description": "...", "usage": "npx hardhat run scripts/x.ts" }`.
+ * The optional description and usage command go into the generated README.
+ *
+ * All paths are relative to the repository root. Broken manifests never abort
+ * discovery: each problem is reported as a ManifestIssue so the CLI can show
+ * them alongside the examples that did load.
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+
+export const MANIFEST_SUFFIX = ".example.json";
+
+// Directories scanned for manifests, relative to the repository root
+export const MANIFEST_ROOTS = ["contracts", "base-template"];
+
+const SKIPPED_DIRS = ["node_modules", ".git", "artifacts", "cache", "coverage", "types", "fhevmTemp"];
+
+const NAME_PATTERN = /^[a-z0-9]+(-[a-z0-9]+)*$/;
+
+// An additional file copied into generated projects
+export interface ExtraFile {
+  source: string;
+  destination: string;
+  description?: string;
+  // Command that runs the file, listed in the README's deployment steps
+  usage?: string;
+}
+
+// A contract call made by the generated deploy scripts after deployment
+export interface SetupCall {
+  method: string;
+  args: unknown[];
+  description?: string;
+}
+
+export interface ExampleManifest {
+  name: string;
+  // Display name used in generated docs, e.g. "FHE Counter"
+  title: string;
+  description: string;
+  category: string;
+  // Position in the docs' learning path; unset examples are listed last
+  learningPath?: number;
+  contract: string;
+  tests: string[];
+  // Added to the generated package.json next to the category
+  keywords: string[];
+  // Extra packages the example needs beyond the template's, by name and version range
+  dependencies: Record<string, string>;
+  devDependencies: Record<string, string>;
+  constructorArgs: unknown[];
+  setup: SetupCall[];
+  extraFiles: ExtraFile[];
+  // Path of the manifest file itself, relative to the repository root
+  manifestPath: string;
+}
+
+export interface ManifestIssue {
+  manifestPath: string;
+  message: string;
+}
+
+export interface ManifestRegistry {
+  examples: Record<string, ExampleManifest>;
+  issues: ManifestIssue[];
+}
+
+function findManifestFiles(dir: string, found: string[] = []): string[] {
+  if (!fs.existsSync(dir)) return found;
+
+  for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+    if (SKIPPED_DIRS.includes(entry.name)) continue;
+
+    const entryPath = path.join(dir, entry.name);
+    if (entry.isDirectory()) {
+      findManifestFiles(entryPath, found);
+    } else if (entry.name.endsWith(MANIFEST_SUFFIX)) {
+      found.push(entryPath);
+    }
+  }
+
+  return found;
+}
+
+function isNonEmptyString(value: unknown): value is string {
+  return typeof value === "string" && value.trim().length > 0;
+}
+
+export function isExampleName(name: string): boolean {
+  return NAME_PATTERN.test(name);
+}
+
+// "encrypt-single-value" -> "Encrypt Single Value"
+export function titleCase(kebab: string): string {
+  return kebab
+    .split("-")
+    .map((word) => word.charAt(0).toUpperCase() + word.slice(1))
+    .join(" ");
+}
+
+// Heading a category is listed under in the docs, e.g. "basic" -> "Basic Examples"
+export function categoryTitle(category: string): string {
+  return `${titleCase(category)} Examples`;
+}
+
+/**
+ * Validate the parsed JSON of one manifest.
+ * Returns the manifest, or the list of problems found in it.
+ */
+function validateManifest(
+  raw: unknown,
+  manifestPath: string,
+  rootDir: string
+): { manifest?: ExampleManifest; problems: string[] } {
+  const problems: string[] = [];
+
+  if (typeof raw !== "object" || raw === null || Array.isArray(raw)) {
+    return { problems: ["manifest must be a JSON object"] };
+  }
+  const data = raw as Record<string, unknown>;
+
+  const fileExists = (relativePath: string) => fs.existsSync(path.join(rootDir, relativePath));
+
+  if (!isNonEmptyString(data.name)) {
+    problems.push(`"name" must be a non-empty string`);
+  } else if (!NAME_PATTERN.test(data.name)) {
+    problems.push(`"name" must be kebab-case (got "${data.name}")`);
+  }
+
+  if (data.title !== undefined && !isNonEmptyString(data.title)) {
+    problems.push(`"title" must be a non-empty string`);
+  }
+
+  for (const field of ["description", "category"]) {
+    if (!isNonEmptyString(data[field])) {
+      problems.push(`"${field}" must be a non-empty string`);
+    }
+  }
+
+  if (data.learningPath !== undefined && !(Number.isInteger(data.learningPath) && (data.learningPath as number) > 0)) {
+    problems.push(`"learningPath" must be a positive integer`);
+  }
+
+  if (!isNonEmptyString(data.contract)) {
+    problems.push(`"contract" must be a path to a .sol file`);
+  } else if (!data.contract.endsWith(".sol")) {
+    problems.push(`"contract" must point to a .sol file (got "${data.contract}")`);
+  } else if (!fileExists(data.contract)) {
+    problems.push(`contract not found: ${data.contract}`);
+  }
+
+  if (!Array.isArray(data.tests) || data.tests.length === 0) {
+    problems.push(`"tests" must be a non-empty array of paths`);
+  } else {
+    for (const test of data.tests) {
+      if (!isNonEmptyString(test)) {
+        problems.push(`"tests" entries must be non-empty strings`);
+      } else if (!fileExists(test)) {
+        problems.push(`test not found: ${test}`);
+      }
+    }
+  }
+
+  const keywords = data.keywords ?? [];
+  if (!Array.isArray(keywords) || !keywords.every(isNonEmptyString)) {
+    problems.push(`"keywords" must be an array of non-empty strings`);
+  }
+
+  for (const field of ["dependencies", "devDependencies"]) {
+    const value = data[field] ?? {};
+    if (typeof value !== "object" || value === null || Array.isArray(value)) {
+      problems.push(`"${field}" must be an object of package names to versions`);
+    } else if (!Object.values(value).every(isNonEmptyString)) {
+      problems.push(`"${field}" versions must be non-empty strings`);
+    }
+  }
+
+  const constructorArgs = data.constructorArgs ?? [];
+  if (!Array.isArray(constructorArgs)) {
+    problems.push(`"constructorArgs" must be an array`);
+  }
+
+  const setup = data.setup ?? [];
+  if (!Array.isArray(setup)) {
+    problems.push(`"setup" must be an array`);
+  } else {
+    for (const call of setup) {
+      const entry = call as Partial<SetupCall> | null;
+      if (!entry || !isNonEmptyString(entry.method)) {
+        problems.push(`"setup" entries must have a "method" string`);
+      } else if (entry.args !== undefined && !Array.isArray(entry.args)) {
+        problems.push(`"setup" args for ${entry.method} must be an array`);
+      }
+    }
+  }
+
+  const extraFiles = data.extraFiles ?? [];
+  if (!Array.isArray(extraFiles)) {
+    problems.push(`"extraFiles" must be an array`);
+  } else {
+    for (const extra of extraFiles) {
+      const entry = extra as Partial<ExtraFile> | null;
+      if (!entry || !isNonEmptyString(entry.source) || !isNonEmptyString(entry.destination)) {
+        problems.push(`"extraFiles" entries must have "source" and "destination" strings`);
+      } else if (!fileExists(entry.source)) {
+        problems.push(`extra file not found: ${entry.source}`);
+      } else if (
+        (entry.description !== undefined && !isNonEmptyString(entry.description)) ||
+        (entry.usage !== undefined && !isNonEmptyString(entry.usage))
+      ) {
+        problems.push(`"extraFiles" description and usage for ${entry.source} must be non-empty strings`);
+      }
+    }
+  }
+
+  if (problems.length > 0) {
+    return { problems };
+  }
+
+  return {
+    problems,
+    manifest: {
+      name: data.name as string,
+      title: (data.title as string | undefined) ?? titleCase(data.name as string),
+      description: data.description as string,
+      category: data.category as string,
+      learningPath: data.learningPath as number | undefined,
+      contract: data.contract as string,
+      tests: data.tests as string[],
+      keywords: keywords as string[],
+      dependencies: (data.dependencies ?? {}) as Record<string, string>,
+      devDependencies: (data.devDependencies ?? {}) as Record<string, string>,
+      constructorArgs: constructorArgs as unknown[],
+      setup: (setup as SetupCall[]).map((call) => ({ ...call, args: call.args ?? [] })),
+      extraFiles: extraFiles as ExtraFile[],
+      manifestPath,
+    },
+  };
+}
+
+/**
+ * Discover and validate every example manifest under the given roots.
+ */
+export function discoverManifests(
+  rootDir: string = process.cwd(),
+  roots: string[] = MANIFEST_ROOTS
+): ManifestRegistry {
+  const registry: ManifestRegistry = { examples: {}, issues: [] };
+
+  const manifestFiles = roots
+    .flatMap((root) => findManifestFiles(path.join(rootDir, root)))
+    .sort();
+
+  for (const file of manifestFiles) {
+    const manifestPath = path.relative(rootDir, file);
+
+    let raw: unknown;
+    try {
+      raw = JSON.parse(fs.readFileSync(file, "utf-8"));
+    } catch (err) {
+      registry.issues.push({ manifestPath, message: `invalid JSON: ${(err as Error).message}` });
+      continue;
+    }
+
+    const { manifest, problems } = validateManifest(raw, manifestPath, rootDir);
+    for (const message of problems) {
+      registry.issues.push({ manifestPath, message });
+    }
+    if (!manifest) continue;
+
+    const existing = registry.examples[manifest.name];
+    if (existing) {
+      registry.issues.push({
+        manifestPath,
+        message: `duplicate example name "${manifest.name}" (already defined in ${existing.manifestPath})`,
+      });
+      continue;
+    }
+
+    registry.examples[manifest.name] = manifest;
+  }
+
+  return registry;
+}
@@ -0,0 +1,152 @@
+/**
+ * Markdown to HTML for the static docs bundle
+ *
+ * Covers the Markdown that generate-docs writes and that the examples' doc
+ * comments use: headings, paragraphs, nested lists, tables, fenced code,
+ * block quotes, rules, `<details>` blocks, and inline code, bold, italics,
+ * links and `<br>` line breaks in table cells. Links to `.md` pages are rewritten to `.html`.
+ */
+
+export function escapeHtml(text: string): string {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+}
+
+// "Contract: FHECounter" -> "contract-fhecounter", the same ids GitBook and GitHub give headings
+export function slugify(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/<[^>]+>|`/g, "")
+    .replace(/[^\w\s-]/g, "")
+    .trim()
+    .replace(/\s+/g, "-");
+}
+
+function renderInline(text: string): string {
+  // Code spans first, so nothing inside them is treated as markup
+  const spans: string[] = [];
+  let html = text.replace(/`([^`]+)`/g, (_, code: string) => {
+    spans.push(`<code>${escapeHtml(code.replace(/\\\|/g, "|"))}</code>`);
+    return `\u0000${spans.length - 1}\u0000`;
+  });
+
+  html = escapeHtml(html)
+    .replace(/\[([^\]]+)\]\(([^)\s]+)\)/g, (_, label: string, href: string) => {
+      const target = /^[a-z]+:/i.test(href) ? href : href.replace(/\.md(#|$)/, ".html$1");
+      return `<a href="${target}">${label}</a>`;
+    })
+    .replace(/\*\*([^*]+)\*\*/g, "<strong>$1</strong>")
+    .replace(/(^|[^*\w])\*([^*\s][^*]*)\*(?!\w)/g, "$1<em>$2</em>")
+    .replace(/\\\|/g, "|")
+    .replace(/&lt;br&gt;/g, "<br>");
+
+  return html.replace(/\u0000(\d+)\u0000/g, (_, index: string) => spans[Number(index)]);
+}
+
+const LIST_ITEM = /^(\s*)([-*+]|\d+\.)\s+(.*)$/;
+const FENCE = /^\s*```(\w*)\s*$/;
+const HEADING = /^(#{1,6})\s+(.*)$/;
+const TABLE_DIVIDER = /^\s*\|?\s*:?-+:?\s*(\|\s*:?-+:?\s*)*\|?\s*$/;
+const HTML_LINE = /^\s*<\/?(details|summary)\b/;
+
+function isBlockStart(line: string): boolean {
+  return FENCE.test(line) || HEADING.test(line) || LIST_ITEM.test(line) || HTML_LINE.test(line) || /^\s*>/.test(line);
+}
+
+function tableCells(line: string): string[] {
+  return line
+    .trim()
+    .replace(/^\||\|$/g, "")
+    .split(/(?<!\\)\|/)
+    .map((cell) => cell.trim());
+}
+
+function renderList(lines: string[]): string {
+  // Items with their indentation; deeper items nest in the item above them
+  const items = lines.map((line) => {
+    const [, indent, marker, text] = LIST_ITEM.exec(line)!;
+    return { indent: indent.length, ordered: /\d/.test(marker), text };
+  });
+
+  let html = "";
+  const stack: { indent: number; tag: string }[] = [];
+  for (const item of items) {
+    while (stack.length > 0 && item.indent < stack[stack.length - 1].indent) {
+      html += `</li></${stack.pop()!.tag}>`;
+    }
+    const top = stack[stack.length - 1];
+    if (!top || item.indent > top.indent) {
+      const tag = item.ordered ? "ol" : "ul";
+      stack.push({ indent: item.indent, tag });
+      html += `<${tag}>`;
+    } else {
+      html += "</li>";
+    }
+    html += `<li>${renderInline(item.text)}`;
+  }
+  while (stack.length > 0) {
+    html += `</li></${stack.pop()!.tag}>`;
+  }
+  return html + "\n";
+}
+
+export function markdownToHtml(markdown: string): string {
+  const lines = markdown.replace(/\r\n/g, "\n").split("\n");
+  let html = "";
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+    const fence = FENCE.exec(line);
+    const heading = HEADING.exec(line);
+
+    if (line.trim() === "") {
+      i++;
+    } else if (fence) {
+      const code: string[] = [];
+      for (i++; i < lines.length && !FENCE.test(lines[i]); i++) code.push(lines[i]);
+      i++;
+      const language = fence[1] ? ` class="language-${fence[1]}"` : "";
+      html += `<pre><code${language}>${escapeHtml(code.join("\n"))}</code></pre>\n`;
+    } else if (heading) {
+      const level = heading[1].length;
+      html += `<h${level} id="${slugify(heading[2])}">${renderInline(heading[2])}</h${level}>\n`;
+      i++;
+    } else if (/^\s*(-{3,}|\*{3,})\s*$/.test(line)) {
+      html += "<hr>\n";
+      i++;
+    } else if (HTML_LINE.test(line)) {
+      html += `${line.trim()}\n`;
+      i++;
+    } else if (line.trim().startsWith("|") && TABLE_DIVIDER.test(lines[i + 1] ?? "")) {
+      const header = tableCells(line);
+      html += `<table><thead><tr>${header.map((cell) => `<th>${renderInline(cell)}</th>`).join("")}</tr></thead><tbody>`;
+      for (i += 2; i < lines.length && lines[i].trim().startsWith("|"); i++) {
+        html += `<tr>${tableCells(lines[i]).map((cell) => `<td>${renderInline(cell)}</td>`).join("")}</tr>`;
+      }
+      html += "</tbody></table>\n";
+    } else if (/^\s*>/.test(line)) {
+      const quoted: string[] = [];
+      for (; i < lines.length && /^\s*>/.test(lines[i]); i++) quoted.push(lines[i].replace(/^\s*>\s?/, ""));
+      html += `<blockquote>${markdownToHtml(quoted.join("\n"))}</blockquote>\n`;
+    } else if (LIST_ITEM.test(line)) {
+      const items: string[] = [];
+      for (; i < lines.length && lines[i].trim() !== "" && !FENCE.test(lines[i]) && !HEADING.test(lines[i]); i++) {
+        if (LIST_ITEM.test(lines[i])) {
+          items.push(lines[i]);
+        } else {
+          // A continuation line belongs to the item above it
+          items[items.length - 1] += ` ${lines[i].trim()}`;
+        }
+      }
+      html += renderList(items);
+    } else {
+      const paragraph: string[] = [];
+      for (; i < lines.length && lines[i].trim() !== "" && (paragraph.length === 0 || !isBlockStart(lines[i])); i++) {
+        paragraph.push(lines[i].trim());
+      }
+      html += `<p>${paragraph.map(renderInline).join("<br>\n")}</p>\n`;
+    }
+  }
+
+  return html;
+}
@@ -0,0 +1,327 @@
+/**
+ * NatSpec parsing for Solidity sources
+ *
+ * Reads both `/** ... *\/` blocks and consecutive `///` lines, splits them into
+ * tags (@title, @notice, @dev, @param, @return, @custom:*) and attaches each
+ * block to the declaration that follows it.
+ *
+ * Each declaration also carries its signature and typed parameters, so docs
+ * can show parameter and return tables next to the @param/@return texts.
+ *
+ * Markdown headings inside a block (`## Pattern: Commit-Reveal`) start a
+ * section of their own instead of continuing the previous tag, so the long
+ * explanations these examples carry stay separate from the short tags.
+ */
+
+import { AbiParameter, balancedParens, parseParameters, stripComments } from "./contract-interface";
+
+export type DeclarationKind =
+  | "contract"
+  | "library"
+  | "interface"
+  | "function"
+  | "constructor"
+  | "event"
+  | "error"
+  | "modifier"
+  | "struct"
+  | "variable"
+  // A doc block that is not followed by any declaration (e.g. a trailing summary)
+  | "none";
+
+export interface NatSpecSection {
+  heading: string;
+  // Number of #s in the heading, 2 for "## Pattern: ..."
+  level: number;
+  body: string;
+}
+
+export interface NatSpecDoc {
+  title?: string;
+  author?: string;
+  notice: string;
+  dev: string;
+  params: Record<string, string>;
+  // Raw @return texts; solc only prefixes the name when the return value is named
+  returns: string[];
+  custom: Record<string, string>;
+  sections: NatSpecSection[];
+}
+
+export interface DocumentedDeclaration {
+  kind: DeclarationKind;
+  name: string;
+  doc: NatSpecDoc;
+  // 1-based line of the declaration (or of the doc block for kind "none")
+  line: number;
+  // Declaration header on one line, e.g. "function vote(uint256 id) external"
+  signature: string;
+  // Function/event/error/modifier parameters, struct members, or the variable itself
+  parameters: AbiParameter[];
+  // Return values of functions
+  returnParameters: AbiParameter[];
+}
+
+function emptyDoc(): NatSpecDoc {
+  return { notice: "", dev: "", params: {}, returns: [], custom: {}, sections: [] };
+}
+
+/**
+ * Lines of a comment block with the comment markers removed. Indentation past
+ * the first space after the marker is preserved for code samples.
+ */
+function commentLines(block: string): string[] {
+  block = block.replace(/\r\n/g, "\n");
+  if (block.trimStart().startsWith("///")) {
+    return block
+      .split("\n")
+      .filter((line) => line.trim().length > 0)
+      .map((line) => line.replace(/^\s*\/\/\/ ?/, ""));
+  }
+
+  return block
+    .replace(/^\s*\/\*\*/, "")
+    .replace(/\*\/\s*$/, "")
+    .split("\n")
+    .map((line) => line.replace(/^\s*\* ?/, "").replace(/\s+$/, ""));
+}
+
+function appendText(current: string, line: string): string {
+  return current ? `${current}\n${line}` : line;
+}
+
+function tidy(text: string): string {
+  return text.replace(/^\n+|\n+$/g, "");
+}
+
+/**
+ * Parse the text of one comment block into tags and sections.
+ */
+export function parseDocBlock(block: string): NatSpecDoc {
+  const doc = emptyDoc();
+  let target: { kind: "tag"; tag: string; key?: string } | { kind: "section"; index: number } = {
+    kind: "tag",
+    tag: "notice",
+  };
+  const tagText: { tag: string; key?: string; text: string }[] = [];
+
+  const append = (line: string) => {
+    if (target.kind === "section") {
+      doc.sections[target.index].body = appendText(doc.sections[target.index].body, line);
+      return;
+    }
+    const last = tagText[tagText.length - 1];
+    if (last && last.tag === target.tag && last.key === target.key) {
+      last.text = appendText(last.text, line);
+    } else {
+      tagText.push({ tag: target.tag, key: target.key, text: line });
+    }
+  };
+
+  for (const line of commentLines(block)) {
+    const tagMatch = /^\s*@([\w:-]+)\s*(.*)$/.exec(line);
+    const headingMatch = /^\s*(#{1,6})\s+(.*)$/.exec(line);
+
+    if (tagMatch) {
+      const [, tag, rest] = tagMatch;
+      if (tag === "param") {
+        const [key, ...words] = rest.split(/\s+/);
+        target = { kind: "tag", tag, key };
+        tagText.push({ tag, key, text: words.join(" ") });
+      } else if (tag === "return") {
+        // Each @return is a separate entry, even without a name to tell them apart
+        target = { kind: "tag", tag, key: String(tagText.length) };
+        tagText.push({ tag, key: target.key, text: rest });
+      } else {
+        target = { kind: "tag", tag };
+        tagText.push({ tag, text: rest });
+      }
+    } else if (headingMatch) {
+      doc.sections.push({ heading: headingMatch[2].replace(/:\s*$/, "").trim(), level: headingMatch[1].length, body: "" });
+      target = { kind: "section", index: doc.sections.length - 1 };
+    } else if (line.trim() === "" && target.kind === "tag") {
+      // A blank line ends a tag; free text after it belongs to @notice (or the last section)
+      append("");
+      target = { kind: "tag", tag: "notice" };
+    } else {
+      // Tag text is prose: drop the alignment indentation of continuation lines
+      append(target.kind === "tag" ? line.trim() : line);
+    }
+  }
+
+  for (const { tag, key, text } of tagText) {
+    const value = tidy(text);
+    switch (tag) {
+      case "title":
+        doc.title = value;
+        break;
+      case "author":
+        doc.author = value;
+        break;
+      case "notice":
+        doc.notice = tidy(appendText(doc.notice, value));
+        break;
+      case "dev":
+        doc.dev = tidy(appendText(doc.dev, value));
+        break;
+      case "param":
+        if (key) doc.params[key] = value;
+        break;
+      case "return":
+        doc.returns.push(value);
+        break;
+      default:
+        doc.custom[tag.replace(/^custom:/, "")] = value;
+    }
+  }
+
+  for (const section of doc.sections) {
+    section.body = tidy(section.body);
+  }
+
+  return doc;
+}
+
+const DECLARATION =
+  /^\s*(?:abstract\s+)?(contract|library|interface|function|event|error|modifier|struct|constructor)\b\s*(\w*)/;
+const STATE_VARIABLE =
+  /^\s*(?:mapping\s*\([^;]*\)|[\w.]+(?:\[\d*\])*)(?:\s+(?:public|private|internal|constant|immutable|override))*\s+(\w+)\s*(?:=[^;]*)?;/;
+
+function lineAt(source: string, index: number): number {
+  return source.slice(0, index).split("\n").length;
+}
+
+function collapse(text: string): string {
+  return text.replace(/\s+/g, " ").replace(/\( /g, "(").replace(/ \)/g, ")").trim();
+}
+
+/**
+ * Signature and parameters of the declaration at the start of `code`, which
+ * has its comments blanked out.
+ */
+function describeDeclaration(
+  kind: DeclarationKind,
+  name: string,
+  code: string
+): Pick<DocumentedDeclaration, "signature" | "parameters" | "returnParameters"> {
+  if (kind === "variable") {
+    const declaration = code.slice(0, code.indexOf(";"));
+    const header = collapse(declaration.split(/=(?!>)/)[0]);
+    const type = header.replace(/\s+(?:public|private|internal|constant|immutable|override)\b/g, "").replace(/\s*\w+$/, "");
+    return { signature: collapse(declaration), parameters: [{ name, type }], returnParameters: [] };
+  }
+
+  const bodyStart = code.search(/[{;]/);
+  const header = code.slice(0, bodyStart === -1 ? undefined : bodyStart);
+  const signature = collapse(header);
+
+  if (kind === "struct") {
+    const members = code.slice(bodyStart + 1, code.indexOf("}", bodyStart));
+    return {
+      signature,
+      parameters: members
+        .split(";")
+        .map((member) => collapse(member))
+        .filter(Boolean)
+        .map((member) => {
+          // Split off the trailing name; the type may contain spaces, e.g. mapping(address => bool)
+          const memberName = /(\w+)$/.exec(member)?.[1] ?? "";
+          return { name: memberName, type: member.slice(0, member.length - memberName.length).trim() };
+        }),
+      returnParameters: [],
+    };
+  }
+
+  const open = header.indexOf("(");
+  if (open === -1 || ["contract", "library", "interface"].includes(kind)) {
+    return { signature, parameters: [], returnParameters: [] };
+  }
+
+  const { inner, end } = balancedParens(header, open);
+  const attributes = header.slice(end);
+  const returnsIndex = attributes.search(/\breturns\s*\(/);
+  return {
+    signature,
+    parameters: parseParameters(collapse(inner)),
+    returnParameters:
+      returnsIndex === -1
+        ? []
+        : parseParameters(collapse(balancedParens(attributes, attributes.indexOf("(", returnsIndex)).inner)),
+  };
+}
+
+/**
+ * Parse every NatSpec block in a Solidity source and attach it to the
+ * declaration that follows.
+ */
+export function parseNatSpec(source: string): DocumentedDeclaration[] {
+  source = source.replace(/\r\n/g, "\n");
+  const code = stripComments(source);
+  const declarations: DocumentedDeclaration[] = [];
+  const blockPattern = /\/\*\*(?!\/)[\s\S]*?\*\/|(?:^[ \t]*\/\/\/[^\n]*(?:\n|$))+/gm;
+  let match: RegExpExecArray | null;
+
+  while ((match = blockPattern.exec(source)) !== null) {
+    const end = match.index + match[0].length;
+    const rest = source.slice(end);
+    const doc = parseDocBlock(match[0]);
+
+    // Skip whitespace to find the declaration start
+    const offset = end + (rest.length - rest.trimStart().length);
+    const declaration = DECLARATION.exec(rest);
+    const variable = declaration ? null : STATE_VARIABLE.exec(rest);
+
+    if (declaration) {
+      const kind = declaration[1] as DeclarationKind;
+      const name = kind === "constructor" ? "constructor" : declaration[2];
+      declarations.push({
+        kind,
+        name,
+        doc,
+        line: lineAt(source, offset),
+        ...describeDeclaration(kind, name, code.slice(offset)),
+      });
+    } else if (variable) {
+      declarations.push({
+        kind: "variable",
+        name: variable[1],
+        doc,
+        line: lineAt(source, offset),
+        ...describeDeclaration("variable", variable[1], code.slice(offset)),
+      });
+    } else {
+      declarations.push({
+        kind: "none",
+        name: "",
+        doc,
+        line: lineAt(source, match.index),
+        signature: "",
+        parameters: [],
+        returnParameters: [],
+      });
+    }
+  }
+
+  return declarations;
+}
+
+/**
+ * Documentation of the main contract, i.e. the one named after the file.
+ */
+export function findContractDoc(
+  declarations: DocumentedDeclaration[],
+  contractName: string
+): NatSpecDoc | undefined {
+  return declarations.find(
+    (declaration) =>
+      ["contract", "library", "interface"].includes(declaration.kind) && declaration.name === contractName
+  )?.doc;
+}
+
+export function findDeclarationDoc(
+  declarations: DocumentedDeclaration[],
+  kind: DeclarationKind,
+  name: string
+): NatSpecDoc | undefined {
+  return declarations.find((declaration) => declaration.kind === kind && declaration.name === name)?.doc;
+}
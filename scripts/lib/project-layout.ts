@@ -0,0 +1,29 @@
+/**
+ * Layout of generated projects - where each example's files end up
+ *
+ * Shared by the planner, which writes the files, and the README renderers,
+ * which describe them, so both always agree on the paths.
+ */
+
+import * as path from "path";
+import { ExampleManifest } from "./manifest";
+
+/**
+ * Where an example source file lands in the generated project, e.g.
+ * test/basic/FHECounter.ts -> test/FHECounter.ts
+ */
+export function exampleDestination(sourcePath: string, dir: string): string {
+  return `${dir}/${path.basename(sourcePath)}`;
+}
+
+// Where an example's deploy scripts are written; a workspace gets one pair per example
+export interface DeployScriptPaths {
+  script: string;
+  hardhatDeploy: string;
+}
+
+export function deployScriptPaths(manifest: ExampleManifest, workspace: boolean): DeployScriptPaths {
+  return workspace
+    ? { script: `scripts/deploy-${manifest.name}.ts`, hardhatDeploy: `deploy/deploy-${manifest.name}.ts` }
+    : { script: "scripts/deploy.ts", hardhatDeploy: "deploy/deploy.ts" };
+}
@@ -0,0 +1,292 @@
+/**
+ * New examples - scaffolds the files for an example that doesn't exist yet
+ *
+ * `scaffoldExample({ name: "private-balance", category: "basic" })` writes:
+ *
+ *   contracts/basic/PrivateBalance.sol           ZamaEthereumConfig contract stub
+ *   contracts/basic/PrivateBalance.example.json  manifest, picked up by --list and generate-docs
+ *   test/basic/PrivateBalance.ts                 test skeleton in the repo's ✅/❌ style
+ *   examples/private-balance.md                  docs page, listed in examples/SUMMARY.md
+ *
+ * The docs page and SUMMARY.md are rendered like `generate-docs --all`
+ * renders them, from the files on disk, so `generate-docs --check` passes.
+ * Like createExample, it never prints or exits; problems are thrown as
+ * CreateExampleError subclasses.
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import { FileSystem } from "./create-example";
+import { DOC_TARGETS } from "./doc-targets";
+import { FileConflictError, InvalidOptionsError } from "./errors";
+import { docPage, loadDocConfigs } from "./example-docs";
+import { discoverManifests, isExampleName, ManifestRegistry, MANIFEST_SUFFIX, titleCase } from "./manifest";
+
+const DOCS_DIR = "examples";
+
+export interface ScaffoldOptions {
+  // Kebab-case example name, e.g. "private-balance"
+  name: string;
+  category: string;
+  description?: string;
+  // Repository root (default: cwd)
+  rootDir?: string;
+  // Pre-discovered manifests, used to reject names that are already taken
+  registry?: ManifestRegistry;
+}
+
+export interface ScaffoldResult {
+  name: string;
+  contractName: string;
+  // Files created, relative to rootDir
+  files: string[];
+  // Why the docs page and SUMMARY.md couldn't be generated, e.g. base-template's dependencies aren't installed
+  docsError?: string;
+  nextSteps: string[];
+}
+
+// "private-balance" -> "PrivateBalance"
+function pascalCase(kebab: string): string {
+  return kebab
+    .split("-")
+    .map((word) => word.charAt(0).toUpperCase() + word.slice(1))
+    .join("");
+}
+
+function renderContract(contractName: string, title: string, description: string): string {
+  return `// SPDX-License-Identifier: BSD-3-Clause-Clear
+pragma solidity ^0.8.24;
+
+import { FHE, euint32, externalEuint32 } from "@fhevm/solidity/lib/FHE.sol";
+import { ZamaEthereumConfig } from "@fhevm/solidity/config/ZamaConfig.sol";
+
+/**
+ * @title ${title}
+ * @notice ${description}
+ * @dev Starting point generated by create-fhevm-example. Replace the stored
+ *      value and its setter with the pattern this example demonstrates.
+ *
+ * ## Key Concepts Demonstrated:
+ * 1. **Encrypted State Storage**: euint32 private state variable
+ * 2. **Input Proofs**: FHE.fromExternal verifies encrypted inputs
+ * 3. **Permission Management**: FHE.allowThis and FHE.allow patterns
+ */
+contract ${contractName} is ZamaEthereumConfig {
+    /// @notice The encrypted value
+    euint32 private _value;
+
+    /// @notice Emitted when a user stores a new encrypted value
+    event ValueUpdated(address indexed user);
+
+    /**
+     * @notice Returns the encrypted value
+     * @return The encrypted handle; only addresses granted access can decrypt it
+     */
+    function getValue() external view returns (euint32) {
+        return _value;
+    }
+
+    /**
+     * @notice Stores an encrypted value
+     * @param inputEuint32 External encrypted input (handle)
+     * @param inputProof Zero-knowledge proof attesting correct encryption
+     *
+     * ## FHEVM Pattern: Permission Granting
+     * \`\`\`solidity
+     * FHE.allowThis(_value);        // Contract can use this value
+     * FHE.allow(_value, msg.sender); // User can decrypt this value
+     * \`\`\`
+     */
+    function setValue(externalEuint32 inputEuint32, bytes calldata inputProof) external {
+        _value = FHE.fromExternal(inputEuint32, inputProof);
+
+        FHE.allowThis(_value);
+        FHE.allow(_value, msg.sender);
+
+        emit ValueUpdated(msg.sender);
+    }
+}
+`;
+}
+
+function renderTest(contractName: string, title: string): string {
+  return `import { expect } from "chai";
+import { ethers, fhevm } from "hardhat";
+import { FhevmType } from "@fhevm/hardhat-plugin";
+import { ${contractName} } from "../../types";
+
+/**
+ * @title ${title} Tests
+ * @notice Test skeleton generated by create-fhevm-example
+ *
+ * ## Test Coverage:
+ * - Contract deployment
+ * - Storing an encrypted value
+ * - Decryption permissions
+ */
+describe("${contractName} - ${title}", () => {
+    let contract: ${contractName};
+    let contractAddress: string;
+    let owner: any;
+    let user1: any;
+
+    beforeEach(async () => {
+        [owner, user1] = await ethers.getSigners();
+
+        const ${contractName}Factory = await ethers.getContractFactory("${contractName}");
+        contract = (await ${contractName}Factory.deploy()) as ${contractName};
+        await contract.waitForDeployment();
+        contractAddress = await contract.getAddress();
+    });
+
+    describe("Deployment", () => {
+        /**
+         * ## Pattern: Contract Deployment
+         * FHEVM contracts inherit ZamaEthereumConfig for network configuration
+         */
+        it("✅ Should deploy successfully", async () => {
+            expect(contractAddress).to.be.properAddress;
+        });
+    });
+
+    describe("Encrypted Value", () => {
+        /**
+         * ## Pattern: Encrypted Input Creation
+         * The FHEVM Hardhat plugin encrypts inputs bound to [contract, user]:
+         * \`\`\`typescript
+         * const input = await fhevm.createEncryptedInput(contractAddress, user.address).add32(42).encrypt();
+         * \`\`\`
+         */
+        it("✅ Should store an encrypted value", async () => {
+            const input = await fhevm.createEncryptedInput(contractAddress, user1.address).add32(42).encrypt();
+
+            await expect(contract.connect(user1).setValue(input.handles[0], input.inputProof))
+                .to.emit(contract, "ValueUpdated")
+                .withArgs(user1.address);
+
+            const handle = await contract.getValue();
+            const value = await fhevm.userDecryptEuint(FhevmType.euint32, handle, contractAddress, user1);
+            expect(value).to.equal(42);
+        });
+
+        it("❌ Should reject an input encrypted for another user", async () => {
+            const input = await fhevm.createEncryptedInput(contractAddress, owner.address).add32(42).encrypt();
+
+            await expect(contract.connect(user1).setValue(input.handles[0], input.inputProof)).to.be.reverted;
+        });
+    });
+});
+`;
+}
+
+/**
+ * Render every example's page and SUMMARY.md, as `generate-docs --all` does,
+ * and keep the new example's page and the index.
+ */
+function renderDocs(name: string, rootDir: string): Map<string, string> {
+  const configs = loadDocConfigs(discoverManifests(rootDir), rootDir);
+  if (!configs[name]) {
+    throw new Error(`${name} isn't in the docs index (its manifest wasn't found on disk)`);
+  }
+  const pages = Object.entries(configs).map(([exampleName, config]) => docPage(exampleName, config, rootDir));
+  const files = DOC_TARGETS.gitbook.render(pages, true);
+  return new Map(
+    [`${name}.md`, "SUMMARY.md"].map((file) => [path.posix.join(DOCS_DIR, file), files.get(file) ?? ""])
+  );
+}
+
+/**
+ * Create the contract, manifest, test and docs page for a new example.
+ * Nothing is written if any of the files already exists.
+ */
+export function scaffoldExample(options: ScaffoldOptions, fileSystem: FileSystem = fs): ScaffoldResult {
+  const { name, category } = options;
+  const rootDir = path.resolve(options.rootDir ?? process.cwd());
+  const registry = options.registry ?? discoverManifests(rootDir);
+
+  if (!isExampleName(name)) {
+    throw new InvalidOptionsError(`Example name must be kebab-case, e.g. "private-balance" (got "${name}")`);
+  }
+  if (!/^[a-z]/.test(name)) {
+    throw new InvalidOptionsError(`Example name must start with a letter, since it becomes the contract name`);
+  }
+  if (!isExampleName(category)) {
+    throw new InvalidOptionsError(`Category must be kebab-case, e.g. "basic" (got "${category}")`);
+  }
+  const existing = registry.examples[name];
+  if (existing) {
+    throw new InvalidOptionsError(`Example "${name}" already exists (${existing.manifestPath})`);
+  }
+
+  const contractName = pascalCase(name);
+  const title = titleCase(name);
+  const description = options.description ?? "Describe what this example demonstrates";
+
+  const files = {
+    contract: `contracts/${category}/${contractName}.sol`,
+    manifest: `contracts/${category}/${contractName}${MANIFEST_SUFFIX}`,
+    test: `test/${category}/${contractName}.ts`,
+    docs: `${DOCS_DIR}/${name}.md`,
+  };
+
+  const conflicts = Object.values(files).filter((file) => fileSystem.existsSync(path.join(rootDir, file)));
+  if (conflicts.length > 0) {
+    throw new FileConflictError(rootDir, conflicts);
+  }
+
+  const manifest = {
+    name,
+    title,
+    description,
+    category,
+    contract: files.contract,
+    tests: [files.test],
+    keywords: [],
+    constructorArgs: [],
+    setup: [],
+    extraFiles: [],
+  };
+
+  const contents: Record<string, string> = {
+    [files.contract]: renderContract(contractName, title, description),
+    [files.manifest]: JSON.stringify(manifest, null, 2) + "\n",
+    [files.test]: renderTest(contractName, title),
+  };
+
+  // Keeps the line endings of a file being replaced
+  const write = (file: string, content: string) => {
+    const target = path.join(rootDir, file);
+    const existing = fileSystem.existsSync(target) ? fileSystem.readFileSync(target).toString("utf-8") : "";
+    fileSystem.mkdirSync(path.dirname(target), { recursive: true });
+    fileSystem.writeFileSync(target, Buffer.from(existing.includes("\r\n") ? content.replace(/\n/g, "\r\n") : content));
+  };
+
+  for (const [file, content] of Object.entries(contents)) {
+    write(file, content);
+  }
+
+  const created = [files.contract, files.manifest, files.test];
+  let docsError: string | undefined;
+  try {
+    for (const [file, content] of renderDocs(name, rootDir)) {
+      write(file, content);
+    }
+    created.push(files.docs);
+  } catch (err) {
+    docsError = (err as Error).message;
+  }
+
+  return {
+    name,
+    contractName,
+    files: created,
+    docsError,
+    nextSteps: [
+      `Implement the contract in ${files.contract}`,
+      `Write the tests in ${files.test}`,
+      `Update the description and keywords in ${files.manifest}`,
+      `Regenerate the docs and SUMMARY.md: npx ts-node scripts/generate-docs.ts --all`,
+      `Try it in a standalone project: npx ts-node scripts/create-fhevm-example.ts ${name}`,
+    ],
+  };
+}
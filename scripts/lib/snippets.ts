@@ -0,0 +1,119 @@
+/**
+ * Source snippets for generated docs - code embedded from the real files
+ *
+ * Doc comments and docs pages embed code with a directive on its own line:
+ *
+ *   {{snippet #increment}}                       function, constructor or modifier of this file
+ *   {{snippet #increment-add}}                   marked region of this file
+ *   {{snippet ../../contracts/X.sol#reset}}      same, in another file (relative to this one)
+ *
+ * A marked region is the lines between `// snippet-start: <name>` and
+ * `// snippet-end: <name>`; marker lines never appear in the output. Names
+ * are looked up as markers first, then as Solidity functions. The directive
+ * becomes the code block, headed by its file and line range. A directive whose
+ * file or target is gone fails the generation instead of leaving stale code.
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import { SnippetNotFoundError } from "./errors";
+import { findFunctionBodies } from "./source-analysis";
+import { dedent } from "./test-suite";
+
+export interface Snippet {
+  // Relative to the repository root, with forward slashes
+  file: string;
+  // 1-based and inclusive
+  startLine: number;
+  endLine: number;
+  code: string;
+  language: string;
+}
+
+const DIRECTIVE = /^([ \t]*)\{\{snippet\s+([^\s#}]*)#([\w.-]+)\s*\}\}[ \t]*$/gm;
+
+const MARKER = /^\s*\/\/\s*snippet-(start|end):\s*([\w.-]+)\s*$/;
+
+const LANGUAGES: Record<string, string> = {
+  ".sol": "solidity",
+  ".ts": "typescript",
+  ".js": "javascript",
+};
+
+// 1-based inclusive range between a marker pair, if the file has both markers
+function findMarkedRegion(lines: string[], name: string): { startLine: number; endLine: number } | undefined {
+  const start = lines.findIndex((line) => MARKER.exec(line)?.slice(1).join(":") === `start:${name}`);
+  if (start === -1) return undefined;
+  const end = lines.findIndex((line, i) => i > start && MARKER.exec(line)?.slice(1).join(":") === `end:${name}`);
+  return end === -1 ? undefined : { startLine: start + 2, endLine: end };
+}
+
+/**
+ * The marked region or function `target` of `file`, or undefined when the
+ * file has neither.
+ */
+export function findSnippet(file: string, target: string, rootDir: string = process.cwd()): Snippet | undefined {
+  const source = fs.readFileSync(file, "utf-8").replace(/\r\n/g, "\n");
+  const lines = source.split("\n");
+
+  let range = findMarkedRegion(lines, target);
+  if (!range && file.endsWith(".sol")) {
+    const fn = findFunctionBodies(source).find((candidate) => candidate.name === target);
+    if (fn) range = { startLine: fn.line, endLine: fn.endLine };
+  }
+  if (!range) return undefined;
+
+  const code = lines
+    .slice(range.startLine - 1, range.endLine)
+    .filter((line) => !MARKER.test(line))
+    .join("\n");
+
+  return {
+    file: path.relative(rootDir, file).split(path.sep).join("/"),
+    ...range,
+    code: dedent(code),
+    language: LANGUAGES[path.extname(file)] ?? "",
+  };
+}
+
+// "L12" or "L12-L20", as in source-browser line anchors
+function lines(snippet: Snippet): string {
+  return snippet.startLine === snippet.endLine ? `L${snippet.startLine}` : `L${snippet.startLine}-L${snippet.endLine}`;
+}
+
+export function renderSnippet(snippet: Snippet, indent = ""): string {
+  const rendered = [
+    `*Source: \`${snippet.file}#${lines(snippet)}\`*`,
+    "",
+    "```" + snippet.language,
+    ...snippet.code.split("\n"),
+    "```",
+  ];
+  return rendered.map((line) => (line ? indent + line : line)).join("\n");
+}
+
+/**
+ * Replace every snippet directive in `markdown`. Paths in the directives are
+ * relative to `referencedFrom`, the file the text was taken from.
+ *
+ * @throws SnippetNotFoundError for the first directive that can't be resolved
+ */
+export function resolveSnippets(markdown: string, referencedFrom: string, rootDir: string = process.cwd()): string {
+  return markdown.replace(DIRECTIVE, (directive: string, indent: string, file: string, target: string) => {
+    const snippetFile = file ? path.resolve(path.dirname(referencedFrom), file) : path.resolve(referencedFrom);
+    const relativeFile = path.relative(rootDir, snippetFile);
+    if (!fs.existsSync(snippetFile)) {
+      throw new SnippetNotFoundError(referencedFrom, directive.trim(), `${relativeFile} does not exist`);
+    }
+
+    const snippet = findSnippet(snippetFile, target, rootDir);
+    if (!snippet) {
+      throw new SnippetNotFoundError(
+        referencedFrom,
+        directive.trim(),
+        `no snippet-start/snippet-end pair or function named "${target}" in ${relativeFile}`
+      );
+    }
+    return renderSnippet(snippet, indent);
+  });
+}
@@ -0,0 +1,467 @@
+/**
+ * Source analysis for generated docs - what a contract's code actually does
+ *
+ * Where natspec.ts reads what the comments say, this module reads the code:
+ * the body of every function, constructor and modifier, the FHE library calls
+ * made in them, what each function can revert with, which events it emits
+ * and which modifiers guard it, and the lifecycle its timing checks and status
+ * strings describe. Comments are stripped first, so examples inside doc
+ * comments are never counted.
+ */
+
+import { balancedParens, stripComments } from "./contract-interface";
+
+export interface SourceFunction {
+  kind: "function" | "constructor" | "modifier";
+  // "constructor" for the constructor
+  name: string;
+  // Parameter list, without the parentheses
+  parameters: string;
+  // Visibility, mutability, modifiers and returns, between the parameters and the body
+  attributes: string;
+  // Text between the braces, comments blanked out
+  body: string;
+  // 1-based lines of the declaration and of the closing brace
+  line: number;
+  endLine: number;
+}
+
+export interface RevertReason {
+  // require/revert message, or the custom error, e.g. "Voting period ended" or "NotOwner(...)"
+  message: string;
+  // Condition of a require, whitespace collapsed
+  condition?: string;
+  // Modifier or internal function the check is in; unset when it is in the function itself
+  via?: string;
+}
+
+export interface FunctionBehavior {
+  kind: SourceFunction["kind"];
+  name: string;
+  visibility: "external" | "public" | "internal" | "private";
+  modifiers: string[];
+  reverts: RevertReason[];
+  // Events emitted, directly or through modifiers and internal functions, in source order
+  events: string[];
+}
+
+export interface LifecycleStatus {
+  // The string the status function returns, e.g. "Reveal phase"
+  status: string;
+  /**
+   * initial: before the first timed phase, set by no function (e.g. "Proposal does not exist")
+   * phase:   a time window, between block.timestamp bounds
+   * flag:    a state some function switches on (e.g. "Executed")
+   */
+  kind: "initial" | "phase" | "flag";
+  // Condition returning this status, whitespace collapsed; unset for the final return
+  condition?: string;
+  // Time window of a phase; struct prefixes are dropped ("proposal.votingEnd" -> "votingEnd")
+  from?: string;
+  until?: string;
+  // Functions that switch a flag on
+  setBy: string[];
+}
+
+export interface LifecycleCall {
+  name: string;
+  // The block.timestamp requires guarding the call, or the flag it requires
+  conditions: string[];
+  // Statuses of the phases the call is allowed in, or the flag status it requires
+  phases: string[];
+  events: string[];
+}
+
+export interface Lifecycle {
+  // The view function returning the status strings, e.g. "getVotingStatus"
+  statusFunction: string;
+  // The function starting the first phase, by setting its time base from block.timestamp
+  creator?: LifecycleCall;
+  // In the status function's order
+  statuses: LifecycleStatus[];
+  // Functions with timing requires, requiring a flag or switching one on, in source order
+  calls: LifecycleCall[];
+}
+
+export interface FheOperation {
+  // e.g. "add", "fromExternal", "asEuint32"
+  name: string;
+  description: string;
+  calls: number;
+  // Functions, constructors and modifiers making the call, in source order
+  usedIn: string[];
+}
+
+// What each FHE library call does, for the docs; checked in order
+const FHE_OPERATIONS: [RegExp, string][] = [
+  [/^add$/, "Encrypted addition"],
+  [/^sub$/, "Encrypted subtraction"],
+  [/^mul$/, "Encrypted multiplication"],
+  [/^div$/, "Division of an encrypted value by a plaintext"],
+  [/^rem$/, "Remainder of an encrypted value by a plaintext"],
+  [/^neg$/, "Encrypted negation"],
+  [/^(min|max)$/, "Encrypted minimum / maximum"],
+  [/^eq$/, "Encrypted equality, as an ebool"],
+  [/^ne$/, "Encrypted inequality, as an ebool"],
+  [/^(lt|le|gt|ge)$/, "Encrypted comparison, as an ebool"],
+  [/^select$/, "Encrypted if-then-else on an ebool condition"],
+  [/^(and|or|xor|not)$/, "Encrypted bitwise / boolean logic"],
+  [/^(shl|shr|rotl|rotr)$/, "Encrypted shift / rotation"],
+  [/^fromExternal$/, "Verifies an encrypted input and its proof, and converts the handle"],
+  [/^asE\w+$/, "Encrypts a plaintext value (trivial encryption)"],
+  [/^randE\w+$/, "Generates an encrypted random value"],
+  [/^allowThis$/, "Grants the contract access to an encrypted value"],
+  [/^allow$/, "Grants an address access to an encrypted value"],
+  [/^allowTransient$/, "Grants access for the current transaction only"],
+  [/^(isAllowed|isSenderAllowed)$/, "Checks access to an encrypted value"],
+  [/^makePubliclyDecryptable$/, "Marks an encrypted value for public decryption"],
+  [/^(requestDecryption|checkSignatures)$/, "Asynchronous decryption through the oracle"],
+  [/^decrypt$/, "Decrypts to plaintext"],
+  [/^isInitialized$/, "Checks whether an encrypted value has been set"],
+  [/^toBytes32$/, "Converts a handle to bytes32"],
+];
+
+const DECLARATION = /\b(function|modifier)\s+(\w+)\s*\(|\b(constructor)\s*\(/g;
+
+function lineAt(source: string, index: number): number {
+  return source.slice(0, index).split("\n").length;
+}
+
+/**
+ * Every function, constructor and modifier with a body. Declarations without
+ * one (interfaces, abstract functions) are skipped.
+ */
+export function findFunctionBodies(source: string): SourceFunction[] {
+  const code = stripComments(source.replace(/\r\n/g, "\n"));
+  // Braces and parentheses inside string literals don't count
+  const masked = code.replace(/"(?:\\.|[^"\\])*"/g, (literal) => literal.replace(/./g, " "));
+  const functions: SourceFunction[] = [];
+
+  let match: RegExpExecArray | null;
+  DECLARATION.lastIndex = 0;
+  while ((match = DECLARATION.exec(masked)) !== null) {
+    const kind = (match[1] ?? match[3]) as SourceFunction["kind"];
+    const name = match[2] ?? "constructor";
+    const { inner, end } = balancedParens(masked, match.index + match[0].length - 1);
+
+    const terminator = masked.slice(end).search(/[{;]/);
+    if (terminator === -1 || masked[end + terminator] === ";") continue;
+
+    const open = end + terminator;
+    let depth = 0;
+    let close = masked.length;
+    for (let i = open; i < masked.length; i++) {
+      if (masked[i] === "{") depth++;
+      if (masked[i] === "}" && --depth === 0) {
+        close = i;
+        break;
+      }
+    }
+
+    functions.push({
+      kind,
+      name,
+      parameters: code.slice(end - inner.length - 1, end - 1).trim(),
+      attributes: code.slice(end, open).trim(),
+      body: code.slice(open + 1, close),
+      line: lineAt(code, match.index),
+      endLine: lineAt(code, close),
+    });
+    DECLARATION.lastIndex = close;
+  }
+
+  return functions;
+}
+
+function describeFheOperation(name: string): string {
+  return FHE_OPERATIONS.find(([pattern]) => pattern.test(name))?.[1] ?? "FHE library call";
+}
+
+/**
+ * The FHE library calls made in a contract, in order of first use.
+ */
+export function findFheOperations(source: string): FheOperation[] {
+  const operations = new Map<string, FheOperation>();
+
+  for (const fn of findFunctionBodies(source)) {
+    for (const [, name] of fn.body.matchAll(/\bFHE\s*\.\s*(\w+)\s*\(/g)) {
+      let operation = operations.get(name);
+      if (!operation) {
+        operation = { name, description: describeFheOperation(name), calls: 0, usedIn: [] };
+        operations.set(name, operation);
+      }
+      operation.calls++;
+      if (!operation.usedIn.includes(fn.name)) operation.usedIn.push(fn.name);
+    }
+  }
+
+  return [...operations.values()];
+}
+
+const ATTRIBUTE_KEYWORDS = [
+  "external",
+  "public",
+  "internal",
+  "private",
+  "pure",
+  "view",
+  "payable",
+  "virtual",
+  "override",
+  "returns",
+];
+
+const STRING_LITERAL = /"(?:\\.|[^"\\])*"/g;
+
+function maskStrings(code: string): string {
+  return code.replace(STRING_LITERAL, (literal) => literal.replace(/./g, " "));
+}
+
+// Split call arguments on top-level commas; `masked` has its strings blanked
+function splitArguments(text: string, masked: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let start = 0;
+  for (let i = 0; i < masked.length; i++) {
+    if ("([{".includes(masked[i])) depth++;
+    if (")]}".includes(masked[i])) depth--;
+    if (masked[i] === "," && depth === 0) {
+      parts.push(text.slice(start, i).trim());
+      start = i + 1;
+    }
+  }
+  parts.push(text.slice(start).trim());
+  return parts.filter(Boolean);
+}
+
+// A string literal's text, or a custom error call shown as "Name(...)"
+function revertMessage(argument: string): string {
+  const literal = /^"((?:\\.|[^"\\])*)"$/.exec(argument);
+  if (literal) return literal[1].replace(/\\(.)/g, "$1");
+  const error = /^(\w+)\s*\(/.exec(argument);
+  return error ? `${error[1]}(...)` : argument;
+}
+
+function modifierNames(attributes: string): string[] {
+  const masked = maskStrings(attributes);
+  const returnsIndex = masked.search(/\breturns\s*\(/);
+  const withoutReturns = returnsIndex === -1 ? masked : masked.slice(0, returnsIndex);
+
+  const names: string[] = [];
+  for (const [, name] of withoutReturns.replace(/\([^)]*\)/g, "").matchAll(/\b([A-Za-z_]\w*)\b/g)) {
+    if (!ATTRIBUTE_KEYWORDS.includes(name) && !names.includes(name)) names.push(name);
+  }
+  return names;
+}
+
+// require(...) and revert(...) checks, and emitted events, in one body
+function directBehavior(body: string): { reverts: RevertReason[]; events: string[] } {
+  const masked = maskStrings(body);
+  const reverts: RevertReason[] = [];
+
+  for (const match of masked.matchAll(/\b(require|revert)\s*(\(|\w+\s*\()/g)) {
+    const openParen = match.index! + match[0].length - 1;
+    const { inner, end } = balancedParens(masked, openParen);
+    const text = body.slice(openParen + 1, end - 1);
+
+    if (match[1] === "require") {
+      const [condition, message] = splitArguments(text, inner);
+      reverts.push({ message: message ? revertMessage(message) : "", condition: condition?.replace(/\s+/g, " ") });
+    } else if (match[2] === "(") {
+      reverts.push({ message: text.trim() ? revertMessage(text.trim()) : "" });
+    } else {
+      reverts.push({ message: `${match[2].replace(/\s*\($/, "")}(...)` });
+    }
+  }
+
+  const events = [...masked.matchAll(/\bemit\s+(\w+)\s*\(/g)].map(([, name]) => name);
+  return { reverts, events };
+}
+
+/**
+ * What each function, constructor and modifier can revert with and emit,
+ * including the checks in the modifiers guarding it and in the internal
+ * functions of the same source that it calls.
+ */
+export function analyzeFunctions(source: string): FunctionBehavior[] {
+  const functions = findFunctionBodies(source);
+  const byName = new Map(functions.filter((fn) => fn.kind !== "constructor").map((fn) => [fn.name, fn]));
+
+  const collect = (fn: SourceFunction, via: string | undefined, seen: Set<string>, behavior: FunctionBehavior) => {
+    const direct = directBehavior(fn.body);
+    behavior.reverts.push(...direct.reverts.map((reason) => (via ? { ...reason, via } : reason)));
+    for (const event of direct.events) {
+      if (!behavior.events.includes(event)) behavior.events.push(event);
+    }
+
+    // Internal and private helpers of the same source, once each
+    for (const [, name] of maskStrings(fn.body).matchAll(/\b(\w+)\s*\(/g)) {
+      const callee = byName.get(name);
+      if (!callee || callee.kind !== "function" || seen.has(name) || !/\b(internal|private)\b/.test(callee.attributes)) continue;
+      seen.add(name);
+      collect(callee, via ?? name, seen, behavior);
+    }
+  };
+
+  return functions.map((fn) => {
+    const visibility = (/\b(external|public|internal|private)\b/.exec(fn.attributes)?.[1] ??
+      "public") as FunctionBehavior["visibility"];
+    const modifiers = fn.kind === "modifier" ? [] : modifierNames(fn.attributes);
+    const behavior: FunctionBehavior = { kind: fn.kind, name: fn.name, visibility, modifiers, reverts: [], events: [] };
+    const seen = new Set([fn.name]);
+
+    for (const modifier of modifiers) {
+      const definition = byName.get(modifier);
+      if (definition?.kind === "modifier") collect(definition, modifier, seen, behavior);
+    }
+    collect(fn, undefined, seen, behavior);
+
+    return behavior;
+  });
+}
+
+const TIMING = /^block\.timestamp\s*(<=|<|>=|>)\s*(.+)$/;
+
+// "proposal.executed" or "!proposal.active"
+const FLAG = /^(!?)\s*[\w[\]]+\.(\w+)$/;
+
+// "proposal.votingEnd + 1 days" -> "votingEnd + 1 days"
+function timeBound(expression: string): string {
+  return expression.replace(/\b(?!block\b|msg\b)[a-z_]\w*(\[[^\]]*\])?\./g, "").replace(/\s+/g, " ").trim();
+}
+
+// `if (condition) return "status";` pairs in order, then the unconditional return
+function statusReturns(body: string): { status: string; condition?: string }[] {
+  const masked = maskStrings(body);
+  const returns: { status: string; condition?: string; index: number }[] = [];
+  const claimed = new Set<number>();
+
+  for (const match of masked.matchAll(/\bif\s*\(/g)) {
+    const openParen = match.index! + match[0].length - 1;
+    const { end } = balancedParens(masked, openParen);
+    const statement = /^\s*\{?\s*return\s*("(?:\\.|[^"\\])*")\s*;/.exec(body.slice(end));
+    if (!statement) continue;
+
+    const index = end + statement[0].indexOf("return");
+    claimed.add(index);
+    const condition = body.slice(openParen + 1, end - 1).replace(/\s+/g, " ").trim();
+    returns.push({ status: revertMessage(statement[1]), condition, index });
+  }
+
+  for (const match of body.matchAll(/\breturn\s*("(?:\\.|[^"\\])*")\s*;/g)) {
+    if (!claimed.has(match.index!)) returns.push({ status: revertMessage(match[1]), index: match.index! });
+  }
+
+  return returns.sort((a, b) => a.index - b.index).map(({ status, condition }) => ({ status, condition }));
+}
+
+/**
+ * The lifecycle a contract's code describes, or undefined when it has no
+ * status function: a view returning status strings, some of them chosen by
+ * block.timestamp comparisons.
+ *
+ * Its timed statuses become phases between the compared bounds; the
+ * block.timestamp requires of the other functions place each call in the
+ * phases it is allowed in. Statuses tested on a boolean field are flags,
+ * switched on by the functions assigning that field; a call requiring the
+ * same field is allowed in that flag status only.
+ */
+export function findLifecycle(source: string): Lifecycle | undefined {
+  const functions = findFunctionBodies(source);
+  const statusFunction = functions.find(
+    (fn) =>
+      fn.kind === "function" &&
+      /\breturns\s*\(\s*string\b/.test(fn.attributes) &&
+      statusReturns(fn.body).some(({ condition }) => condition && TIMING.test(condition))
+  );
+  if (!statusFunction) return undefined;
+
+  const behaviors = analyzeFunctions(source);
+  // Views are queries, not steps of the lifecycle
+  const callable = functions.filter(
+    (fn) =>
+      fn.kind === "function" &&
+      fn !== statusFunction &&
+      /\b(public|external)\b/.test(fn.attributes) &&
+      !/\b(view|pure)\b/.test(fn.attributes)
+  );
+
+  // Phases in order: each timed status lasts until its bound, the one after the last bound from it
+  const statuses: LifecycleStatus[] = [];
+  let previousBound: string | undefined;
+  for (const { status, condition } of statusReturns(statusFunction.body)) {
+    const timing = condition ? TIMING.exec(condition) : undefined;
+    const flag = condition ? FLAG.exec(condition) : undefined;
+
+    if (timing || (!condition && previousBound)) {
+      const until = timing ? timeBound(timing[2]) : undefined;
+      statuses.push({ status, kind: "phase", condition, from: previousBound, until, setBy: [] });
+      previousBound = until;
+    } else if (flag) {
+      const assignment = new RegExp(`\\.${flag[2]}\\s*=\\s*${flag[1] ? "false" : "true"}\\b`);
+      const setBy = callable.filter((fn) => assignment.test(fn.body)).map((fn) => fn.name);
+      statuses.push({ status, kind: setBy.length > 0 ? "flag" : "initial", condition, setBy });
+    } else {
+      statuses.push({ status, kind: "initial", condition, setBy: [] });
+    }
+  }
+
+  const phases = statuses.filter((status) => status.kind === "phase");
+  const bounds = phases.map((phase) => phase.until);
+
+  // "proposal.executed" and "p.executed" are the same flag; the polarity must match too
+  const flagKey = (condition: string) => FLAG.exec(condition)?.slice(1).join(".");
+  const flagRequired = (behavior: FunctionBehavior) =>
+    statuses.find(
+      (status) =>
+        status.kind === "flag" &&
+        behavior.reverts.some((reason) => reason.condition && flagKey(reason.condition) === flagKey(status.condition!))
+    );
+
+  const lifecycleCall = (name: string): LifecycleCall => {
+    const behavior = behaviors.find((candidate) => candidate.name === name)!;
+    const flag = flagRequired(behavior);
+    if (flag) return { name, conditions: [flag.condition!], phases: [flag.status], events: behavior.events };
+
+    const conditions = behavior.reverts.map((reason) => reason.condition ?? "").filter((condition) => TIMING.test(condition));
+
+    let allowed = phases;
+    for (const condition of conditions) {
+      const [, operator, bound] = TIMING.exec(condition)!;
+      const index = bounds.indexOf(timeBound(bound));
+      if (index === -1) continue;
+      allowed = allowed.filter((phase) => {
+        const position = phases.indexOf(phase);
+        return operator.startsWith("<") ? position <= index : position > index;
+      });
+    }
+
+    return { name, conditions, phases: allowed.map((phase) => phase.status), events: behavior.events };
+  };
+
+  // The first phase is timed from a field the creating function sets to block.timestamp
+  const base = /\b\w+$/.exec(bounds[0]?.split(/\s*[-+]\s*/)[0] ?? "")?.[0];
+  const creator = callable.find(
+    (fn) =>
+      base !== undefined &&
+      new RegExp(`\\.${base}\\s*=\\s*block\\.timestamp\\b`).test(fn.body)
+  );
+
+  const flagSetters = statuses.flatMap((status) => status.setBy);
+  const calls = callable
+    .filter(
+      (fn) =>
+        fn !== creator &&
+        (/\bblock\.timestamp\s*(<|>)/.test(fn.body) ||
+          flagSetters.includes(fn.name) ||
+          flagRequired(behaviors.find((behavior) => behavior.name === fn.name)!))
+    )
+    .map((fn) => lifecycleCall(fn.name));
+
+  return {
+    statusFunction: statusFunction.name,
+    creator: creator && lifecycleCall(creator.name),
+    statuses,
+    calls,
+  };
+}
@@ -0,0 +1,78 @@
+/**
+ * Test documentation for example pages
+ *
+ * Renders a test file's describe tree as nested headings, with every test
+ * under its block: the title, its doc comment (including `## Pattern:`
+ * sections and their code samples) and the test's own code.
+ */
+
+import * as path from "path";
+import { NatSpecDoc } from "./natspec";
+import { countTests, flattenTests, TestCategory, testCategory, TestCase, TestSuite } from "./test-suite";
+
+const CATEGORIES: { category: TestCategory; label: string }[] = [
+  { category: "success", label: "✅ Success cases" },
+  { category: "failure", label: "❌ Error handling" },
+  { category: "warning", label: "⚠️ Pitfalls and edge cases" },
+  { category: "other", label: "Other" },
+];
+
+function renderDoc(doc: NatSpecDoc | undefined): string {
+  if (!doc) return "";
+
+  let text = "";
+  if (doc.notice) text += `${doc.notice}\n\n`;
+  if (doc.dev) text += `${doc.dev}\n\n`;
+  for (const section of doc.sections) {
+    text += `**${section.heading}**\n\n${section.body ? `${section.body}\n\n` : ""}`;
+  }
+  return text;
+}
+
+function renderTest(test: TestCase, language: string): string {
+  let rendered = `**${test.title}**\n\n`;
+  rendered += renderDoc(test.doc);
+  if (test.code) {
+    rendered += "<details>\n<summary>Test code</summary>\n\n";
+    rendered += "```" + language + "\n" + test.code + "\n```\n\n";
+    rendered += "</details>\n\n";
+  }
+  return rendered;
+}
+
+function renderSuite(suite: TestSuite, depth: number, language: string): string {
+  let rendered = "";
+  if (suite.title) {
+    rendered += `${"#".repeat(Math.min(depth, 6))} ${suite.title}\n\n`;
+    rendered += renderDoc(suite.doc);
+  }
+  for (const test of suite.tests) {
+    rendered += renderTest(test, language);
+  }
+  for (const child of suite.suites) {
+    rendered += renderSuite(child, depth + 1, language);
+  }
+  return rendered;
+}
+
+/**
+ * Markdown for one test file: a count per category, then the describe tree
+ * starting at heading level `depth`.
+ */
+export function renderTestSuites(file: string, suites: TestSuite[], depth = 3): string {
+  const tests = flattenTests(suites).map(({ test }) => test);
+  const language = path.extname(file) === ".js" ? "javascript" : "typescript";
+
+  let rendered = `The test suite (\`${file}\`) includes ${countTests(suites)} tests:\n\n`;
+  rendered += "| Category | Tests |\n|---|---|\n";
+  for (const { category, label } of CATEGORIES) {
+    const count = tests.filter((test) => testCategory(test.title) === category).length;
+    if (count > 0) rendered += `| ${label} | ${count} |\n`;
+  }
+  rendered += "\n";
+
+  for (const suite of suites) {
+    rendered += renderSuite(suite, depth, language);
+  }
+  return rendered;
+}
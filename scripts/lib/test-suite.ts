@@ -0,0 +1,198 @@
+/**
+ * Test suite outlines - the describe/it structure of a Mocha test file
+ *
+ * Only string-literal titles are recognised (single, double or backtick
+ * quotes without interpolation), which is what every example test uses.
+ * The block comment right before a describe or it call is its doc, parsed
+ * like NatSpec so `## Pattern:` blocks become sections.
+ */
+
+import { NatSpecDoc, parseDocBlock } from "./natspec";
+
+export interface TestCase {
+  title: string;
+  // 1-based line of the it(...) call
+  line: number;
+  doc?: NatSpecDoc;
+  // Body of the test callback, dedented, comments kept
+  code: string;
+}
+
+export interface TestSuite {
+  title: string;
+  line: number;
+  doc?: NatSpecDoc;
+  tests: TestCase[];
+  suites: TestSuite[];
+}
+
+// Test kinds by the emoji their titles start with, e.g. "✅ Should ..."
+export type TestCategory = "success" | "failure" | "warning" | "other";
+
+/**
+ * Replace comments with spaces so offsets and line numbers stay unchanged.
+ */
+export function blankComments(source: string): string {
+  let result = "";
+  let i = 0;
+
+  while (i < source.length) {
+    const char = source[i];
+    const next = source[i + 1];
+
+    if (char === '"' || char === "'" || char === "`") {
+      let j = i + 1;
+      while (j < source.length && source[j] !== char) {
+        j += source[j] === "\\" ? 2 : 1;
+      }
+      result += source.slice(i, j + 1);
+      i = j + 1;
+    } else if (char === "/" && (next === "/" || next === "*")) {
+      const end = next === "/" ? source.indexOf("\n", i) : source.indexOf("*/", i + 2) + 2;
+      const stop = end <= 1 || end === -1 ? source.length : end;
+      result += source.slice(i, stop).replace(/[^\n]/g, " ");
+      i = stop;
+    } else {
+      result += char;
+      i++;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Index just past the parenthesis that closes the one at `openIndex`.
+ * Expects comments to be blanked already; skips string literals.
+ */
+function closingParen(source: string, openIndex: number): number {
+  let depth = 0;
+  let i = openIndex;
+
+  while (i < source.length) {
+    const char = source[i];
+    if (char === '"' || char === "'" || char === "`") {
+      let j = i + 1;
+      while (j < source.length && source[j] !== char) {
+        j += source[j] === "\\" ? 2 : 1;
+      }
+      i = j + 1;
+      continue;
+    }
+    if (char === "(") depth++;
+    if (char === ")") {
+      depth--;
+      if (depth === 0) return i + 1;
+    }
+    i++;
+  }
+
+  return source.length;
+}
+
+function unquote(literal: string): string {
+  return literal.replace(/\\(["'`\\])/g, "$1");
+}
+
+/**
+ * The doc comment ending right before `index`, with only whitespace between.
+ */
+function docBefore(source: string, index: number): NatSpecDoc | undefined {
+  const before = source.slice(0, index).trimEnd();
+  if (!before.endsWith("*/")) return undefined;
+
+  const start = before.lastIndexOf("/**");
+  if (start === -1 || before.slice(start, -2).includes("*/")) return undefined;
+  return parseDocBlock(before.slice(start));
+}
+
+export function dedent(text: string): string {
+  const lines = text.replace(/^\s*\n|\s+$/g, "").split("\n");
+  const indents = lines.filter((line) => line.trim()).map((line) => /^\s*/.exec(line)![0].length);
+  const indent = Math.min(...indents, Infinity);
+  return lines.map((line) => line.slice(Number.isFinite(indent) ? indent : 0)).join("\n");
+}
+
+/**
+ * Body of the callback passed to it(...), from the source with its comments.
+ * A doc comment opening the body is returned as the test's doc instead.
+ */
+function callbackBody(source: string, code: string, openParen: number, titleEnd: number): { code: string; doc?: NatSpecDoc } {
+  const end = closingParen(code, openParen);
+  const open = code.indexOf("{", titleEnd);
+  const close = code.lastIndexOf("}", end);
+  if (open === -1 || close < open) return { code: "" };
+
+  const body = source.slice(open + 1, close);
+  const leadingDoc = /^\s*(\/\*\*[\s\S]*?\*\/)/.exec(body);
+  if (!leadingDoc) return { code: dedent(body) };
+  return { code: dedent(body.slice(leadingDoc[0].length)), doc: parseDocBlock(leadingDoc[1]) };
+}
+
+export function testCategory(title: string): TestCategory {
+  if (title.startsWith("✅")) return "success";
+  if (title.startsWith("❌")) return "failure";
+  if (title.startsWith("⚠️")) return "warning";
+  return "other";
+}
+
+/**
+ * Parse the describe/it tree of a test file.
+ */
+export function parseTestSuites(source: string): TestSuite[] {
+  source = source.replace(/\r\n/g, "\n");
+  const code = blankComments(source);
+  const call = /\b(describe|it)(?:\.only|\.skip)?\s*\(\s*(["'`])((?:\\.|(?!\2)[^\\])*)\2/g;
+
+  const root: TestSuite = { title: "", line: 0, tests: [], suites: [] };
+  // Open describe blocks with the offset at which they end
+  const stack: { suite: TestSuite; end: number }[] = [{ suite: root, end: code.length }];
+
+  let match: RegExpExecArray | null;
+  while ((match = call.exec(code)) !== null) {
+    const [, kind, quote, rawTitle] = match;
+    if (quote === "`" && rawTitle.includes("${")) continue;
+
+    while (stack.length > 1 && match.index >= stack[stack.length - 1].end) {
+      stack.pop();
+    }
+
+    const parent = stack[stack.length - 1].suite;
+    const title = unquote(rawTitle);
+    const line = code.slice(0, match.index).split("\n").length;
+    const doc = docBefore(source, match.index);
+    const openParen = code.indexOf("(", match.index);
+
+    if (kind === "describe") {
+      const suite: TestSuite = { title, line, doc, tests: [], suites: [] };
+      parent.suites.push(suite);
+      stack.push({ suite, end: closingParen(code, openParen) });
+    } else {
+      const body = callbackBody(source, code, openParen, match.index + match[0].length);
+      parent.tests.push({ title, line, doc: doc ?? body.doc, code: body.code });
+    }
+  }
+
+  // Tests outside any describe block are kept under an untitled suite
+  if (root.tests.length > 0) {
+    return [{ ...root, suites: [] }, ...root.suites];
+  }
+  return root.suites;
+}
+
+export function countTests(suites: TestSuite[]): number {
+  return suites.reduce((total, suite) => total + suite.tests.length + countTests(suite.suites), 0);
+}
+
+/**
+ * Every test with the titles of its enclosing describe blocks.
+ */
+export function flattenTests(suites: TestSuite[], path: string[] = []): { path: string[]; test: TestCase }[] {
+  return suites.flatMap((suite) => {
+    const suitePath = suite.title ? [...path, suite.title] : path;
+    return [
+      ...suite.tests.map((test) => ({ path: suitePath, test })),
+      ...flattenTests(suite.suites, suitePath),
+    ];
+  });
+}
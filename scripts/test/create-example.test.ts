@@ -0,0 +1,66 @@
+/**
+ * Generates every registered example, every category and a workspace of all
+ * examples as a dry run, so a manifest that no longer matches its contract
+ * (a setup call with the wrong arguments, a missing extra file, ...) fails
+ * here rather than in a user's create-fhevm-example run.
+ *
+ *   npx ts-node scripts/test/create-example.test.ts
+ */
+
+import { strict as assert } from "assert";
+import * as os from "os";
+import * as path from "path";
+import { describe, it } from "node:test";
+import { createExample, CreateExampleOptions, CreateExampleResult } from "../lib/create-example";
+import { discoverManifests } from "../lib/manifest";
+
+const rootDir = path.resolve(__dirname, "../..");
+const registry = discoverManifests(rootDir);
+const names = Object.keys(registry.examples).sort();
+const categories = [...new Set(Object.values(registry.examples).map((manifest) => manifest.category))].sort();
+
+// Never written to: every run below is a dry run
+const outputDir = path.join(os.tmpdir(), "create-fhevm-example-test", "output");
+
+function generate(selection: Pick<CreateExampleOptions, "example" | "category" | "examples">, withFrontend = false) {
+  return createExample({ ...selection, outputDir, dryRun: true, withFrontend, rootDir, registry });
+}
+
+// Typings come from the generated project's own compile; any types/ file in
+// the plan was copied from a local base-template build, for other contracts
+function assertNoCopiedTypings(result: CreateExampleResult) {
+  const typings = result.files.map((file) => file.path).filter((file) => file.startsWith("types/"));
+  assert.deepEqual(typings, []);
+}
+
+describe("example registry", () => {
+  it("has no invalid manifests", () => {
+    assert.deepEqual(registry.issues, []);
+    assert.ok(names.length > 0, "no example manifests found");
+  });
+});
+
+describe("createExample", () => {
+  for (const name of names) {
+    it(`generates ${name}`, () => {
+      const result = generate({ example: name });
+      assert.equal(result.examples.length, 1);
+      assert.ok(result.files.some((file) => file.path === "package.json"));
+      assertNoCopiedTypings(result);
+    });
+  }
+
+  for (const category of categories) {
+    it(`generates the ${category} category`, () => {
+      const result = generate({ category });
+      assert.ok(result.examples.length > 0);
+      assertNoCopiedTypings(result);
+    });
+  }
+
+  it("generates a workspace of every example with a frontend", () => {
+    const result = generate({ examples: names }, true);
+    assert.deepEqual(result.examples.map((example) => example.name).sort(), names);
+    assertNoCopiedTypings(result);
+  });
+});
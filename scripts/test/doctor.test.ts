@@ -0,0 +1,40 @@
+/**
+ * Generates every registered example into a temporary directory and runs
+ * doctor on it, so a README, test or config the generator writes and doctor
+ * rejects fails here rather than in a user's `create-fhevm-example doctor`.
+ * The projects aren't installed, as right after `create-fhevm-example`.
+ *
+ *   npx ts-node scripts/test/doctor.test.ts
+ */
+
+import { strict as assert } from "assert";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { after, describe, it } from "node:test";
+import { createExample } from "../lib/create-example";
+import { runDoctor } from "../lib/doctor";
+import { discoverManifests } from "../lib/manifest";
+
+const rootDir = path.resolve(__dirname, "../..");
+const registry = discoverManifests(rootDir);
+const names = Object.keys(registry.examples).sort();
+
+const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "create-fhevm-example-doctor-"));
+after(() => fs.rmSync(tempDir, { recursive: true, force: true }));
+
+describe("doctor on a generated project", () => {
+  for (const name of names) {
+    it(`passes for ${name}`, () => {
+      const outputDir = path.join(tempDir, name);
+      createExample({ example: name, outputDir, rootDir, registry });
+
+      const report = runDoctor(outputDir);
+      assert.deepEqual(
+        report.checks.filter((check) => check.status === "fail"),
+        []
+      );
+      assert.ok(report.passed);
+    });
+  }
+});
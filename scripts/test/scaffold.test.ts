@@ -0,0 +1,55 @@
+/**
+ * Scaffolds a new example in a copy of the repository and checks the docs
+ * the way `generate-docs --check` does, so `new` never leaves examples/
+ * (the page or SUMMARY.md's table of contents and learning path) stale.
+ *
+ *   npx ts-node scripts/test/scaffold.test.ts
+ */
+
+import { strict as assert } from "assert";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { after, describe, it } from "node:test";
+import { DOC_TARGETS } from "../lib/doc-targets";
+import { docPage, loadDocConfigs, staleDocs } from "../lib/example-docs";
+import { discoverManifests } from "../lib/manifest";
+import { scaffoldExample } from "../lib/scaffold";
+
+const rootDir = path.resolve(__dirname, "../..");
+
+// scaffoldExample writes into contracts/, test/ and examples/, so those are
+// copied; the projects discovery reads (and their dependencies) are linked
+const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "create-fhevm-example-scaffold-"));
+for (const dir of ["contracts", "test", "examples"]) {
+  fs.cpSync(path.join(rootDir, dir), path.join(tempDir, dir), { recursive: true });
+}
+for (const dir of ["base-template", "daovoting"]) {
+  fs.symlinkSync(path.join(rootDir, dir), path.join(tempDir, dir));
+}
+after(() => fs.rmSync(tempDir, { recursive: true, force: true }));
+
+// What `generate-docs --check` compares with examples/
+function checkDocs(): string[] {
+  const configs = loadDocConfigs(discoverManifests(tempDir), tempDir);
+  const pages = Object.entries(configs).map(([name, config]) => docPage(name, config, tempDir));
+  const docs = new Map(
+    [...DOC_TARGETS.gitbook.render(pages, true)].map(([file, content]) => [path.join("examples", file), content])
+  );
+  return staleDocs(docs, tempDir);
+}
+
+describe("scaffoldExample", () => {
+  it("leaves the docs up to date", () => {
+    assert.deepEqual(checkDocs(), []);
+
+    const result = scaffoldExample({ name: "private-balance", category: "basic", rootDir: tempDir });
+
+    assert.equal(result.docsError, undefined);
+    assert.ok(result.files.includes("examples/private-balance.md"));
+    assert.deepEqual(checkDocs(), []);
+
+    const summary = fs.readFileSync(path.join(tempDir, "examples", "SUMMARY.md"), "utf-8");
+    assert.match(summary, /## Learning Path[\s\S]*\[Private Balance\]\(private-balance\.md\)/);
+  });
+});
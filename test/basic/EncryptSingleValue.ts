@@ -59,12 +59,7 @@ describe("EncryptSingleValue - Input Encryption Example", () => {
          * ```
          *
          * 2. **Contract Side** (Solidity):
-         * ```solidity
-         * euint32 value = FHE.fromExternal(encryptedInput, inputProof);
-         * userValues[msg.sender] = value;
-         * FHE.allowThis(value);
-         * FHE.allow(value, msg.sender);
-         * ```
+         * {{snippet ../../contracts/basic/EncryptSingleValue.sol#storeValue}}
          */
 
         it("✅ Should store encrypted value successfully", async () => {